@@ -0,0 +1,48 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { tokenizeArgs, parseAssignment, parseFlags } from "../args.js";
+
+test("tokenizeArgs splits on whitespace and groups quoted text", () => {
+  assert.deepEqual(tokenizeArgs(`  save "my chat.json"  --format md `), ["save", "my chat.json", "--format", "md"]);
+  assert.deepEqual(tokenizeArgs(`stop="###" name='a b'`), ["stop=###", "name=a b"]);
+});
+
+test("tokenizeArgs unescapes sequences inside double quotes only", () => {
+  assert.deepEqual(tokenizeArgs(`"a\\nb" 'a\\nb'`), ["a\nb", "a\\nb"]);
+});
+
+test("tokenizeArgs rejects unterminated quotes", () => {
+  assert.throws(() => tokenizeArgs(`say "hello`), /Unterminated " quote/);
+});
+
+test("tokenizeArgs keeps brace-delimited JSON as written", () => {
+  assert.deepEqual(tokenizeArgs(`--json {"type": "object", "required": ["a}"]} --seed 1`), [
+    "--json",
+    `{"type": "object", "required": ["a}"]}`,
+    "--seed",
+    "1",
+  ]);
+  assert.deepEqual(tokenizeArgs(`schema={"type":"string"}`), [`schema={"type":"string"}`]);
+  assert.throws(() => tokenizeArgs(`--json {"type": "object"`), /Unterminated \{ brace/);
+});
+
+test("parseAssignment splits at the first =", () => {
+  assert.deepEqual(parseAssignment("url=a=b"), { name: "url", value: "a=b" });
+  assert.throws(() => parseAssignment("=value"), /Expected name=value/);
+});
+
+test("parseFlags reads typed, repeatable and positional arguments", () => {
+  const { flags, positionals } = parseFlags(
+    ["file", "--n", "3", "--stop=x", "--stop", "y", "--quiet", "--", "--rest"],
+    { n: "number", stop: "string", quiet: "boolean" },
+    ["stop"]
+  );
+  assert.deepEqual(flags, { n: 3, stop: ["x", "y"], quiet: true });
+  assert.deepEqual(positionals, ["file", "--rest"]);
+});
+
+test("parseFlags rejects unknown options and bad values", () => {
+  assert.throws(() => parseFlags(["--nope"], {}), /Unknown option: --nope/);
+  assert.throws(() => parseFlags(["--n", "many"], { n: "number" }), /expects a number/);
+  assert.throws(() => parseFlags(["--n"], { n: "number" }), /requires a value/);
+});
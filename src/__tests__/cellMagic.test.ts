@@ -0,0 +1,37 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseCellMagic } from "../cellMagic.js";
+import { parseSchema } from "../structured.js";
+
+test("cells without a %%chat header are not cell magics", () => {
+  assert.equal(parseCellMagic("Hello %%chat"), null);
+});
+
+test("parseCellMagic reads the options and the prompt", () => {
+  const cell = parseCellMagic("\n%%chat --model fake:echo --temperature 0.1 --no-history --stop a --stop b\nWhat now?\n");
+  assert.deepEqual(cell, {
+    options: {
+      model: "fake:echo",
+      system: undefined,
+      generation: { temperature: 0.1, stop: ["a", "b"] },
+      history: false,
+      json: undefined,
+      maxSteps: undefined,
+      thread: undefined,
+    },
+    body: "What now?",
+  });
+});
+
+test("parseCellMagic rejects prompts on the header line and bad step limits", () => {
+  assert.throws(() => parseCellMagic("%%chat What now?"), /Unexpected argument/);
+  assert.throws(() => parseCellMagic("%%chat --max-steps 0\nHi"), /--max-steps/);
+});
+
+test("an inline --json schema with quotes parses", () => {
+  const cell = parseCellMagic(`%%chat --json {"type": "object", "properties": {"name": {"type": "string"}}}\nName a cat.`);
+  assert.deepEqual(parseSchema(cell!.options.json!), {
+    type: "object",
+    properties: { name: { type: "string" } },
+  });
+});
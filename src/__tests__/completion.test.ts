@@ -0,0 +1,40 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { fuzzyMatch, completeMagic, type CompletionSources } from "../completion.js";
+
+const sources: CompletionSources = {
+  models: ["webllm:Llama-3.2-3B-Instruct-q4f16_1-MLC", "webllm:Qwen2.5-0.5B-Instruct-q4f16_1-MLC", "fake:echo"],
+  personas: ["pirate"],
+  configKeys: ["temperature", "top_p"],
+  templates: ["summary"],
+  tools: ["add"],
+  threads: ["main", "draft"],
+  cachedModels: ["webllm:Qwen2.5-0.5B-Instruct-q4f16_1-MLC"],
+};
+
+test("fuzzyMatch ranks prefix, substring, then subsequence matches", () => {
+  assert.deepEqual(fuzzyMatch("ab", ["xaxb", "xab", "abc"]), ["abc", "xab", "xaxb"]);
+  assert.deepEqual(fuzzyMatch("llama3b", sources.models), ["webllm:Llama-3.2-3B-Instruct-q4f16_1-MLC"]);
+});
+
+test("fuzzyMatch ignores provider prefixes unless the query has one", () => {
+  assert.deepEqual(fuzzyMatch("echo", sources.models), ["fake:echo"]);
+  assert.deepEqual(fuzzyMatch("fake:", sources.models), ["fake:echo"]);
+});
+
+test("completeMagic completes subcommands and their values", () => {
+  assert.deepEqual(completeMagic("%chat thr", 9, sources), { matches: ["thread"], cursor_start: 6, cursor_end: 9 });
+  assert.deepEqual(completeMagic("%chat config t", 14, sources)?.matches, ["temperature=", "top_p="]);
+  assert.deepEqual(completeMagic("%chat thread switch d", 21, sources)?.matches, ["draft"]);
+  assert.deepEqual(completeMagic("%chat cache delete ", 19, sources)?.matches, ["webllm:Qwen2.5-0.5B-Instruct-q4f16_1-MLC"]);
+});
+
+test("completeMagic completes %%chat options on the header line only", () => {
+  assert.deepEqual(completeMagic("%%chat --thr", 12, sources)?.matches, ["--thread"]);
+  assert.deepEqual(completeMagic("%%chat --model qwen", 19, sources)?.matches, ["webllm:Qwen2.5-0.5B-Instruct-q4f16_1-MLC"]);
+  assert.equal(completeMagic("%%chat\n--mo", 11, sources), null);
+});
+
+test("completeMagic returns null outside magics", () => {
+  assert.equal(completeMagic("Tell me a joke", 4, sources), null);
+});
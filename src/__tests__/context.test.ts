@@ -0,0 +1,29 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { selectTurnsToRemove, validateContextSettings, withSummary, estimateTokens } from "../context.js";
+
+test("selectTurnsToRemove drops the oldest turns until the prompt fits", () => {
+  assert.deepEqual(selectTurnsToRemove([100, 100, 100], [false, false, false], 50, 260, false), { remove: [0], fits: true });
+  assert.deepEqual(selectTurnsToRemove([100, 100], [false, false], 50, 500, false), { remove: [], fits: true });
+});
+
+test("selectTurnsToRemove keeps pinned turns when asked to", () => {
+  assert.deepEqual(selectTurnsToRemove([100, 100, 100], [true, false, false], 50, 260, true), { remove: [1], fits: true });
+  assert.deepEqual(selectTurnsToRemove([100, 100, 100], [true, false, false], 50, 260, false), { remove: [0], fits: true });
+});
+
+test("selectTurnsToRemove reports when the prompt cannot fit", () => {
+  assert.deepEqual(selectTurnsToRemove([100], [true], 500, 300, true), { remove: [], fits: false });
+});
+
+test("validateContextSettings applies defaults and rejects bad values", () => {
+  assert.deepEqual(validateContextSettings({ strategy: "summarize" }), { strategy: "summarize", reserveTokens: 512 });
+  assert.throws(() => validateContextSettings({ strategy: "newest" }), /Invalid context strategy/);
+  assert.throws(() => validateContextSettings({ reserveTokens: -1 }), /Invalid reserveTokens/);
+});
+
+test("withSummary appends the summary to the system prompt", () => {
+  assert.equal(withSummary("", null), "");
+  assert.equal(withSummary("Be brief.", "They met."), "Be brief.\n\nSummary of the earlier conversation:\nThey met.");
+  assert.equal(estimateTokens("abcdefg"), 3);
+});
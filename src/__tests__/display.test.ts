@@ -0,0 +1,55 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { type ReplyOutput, ReplyRenderer } from "../display.js";
+
+function recorder() {
+  const messages: [string, any][] = [];
+  const output: ReplyOutput = {
+    stream: (text) => messages.push(["stream", text]),
+    displayData: (content) => messages.push(["display_data", content]),
+    updateDisplayData: (content) => messages.push(["update_display_data", content]),
+    publishExecuteResult: (content) => messages.push(["execute_result", content]),
+  };
+  return { output, messages };
+}
+
+test("Markdown replies stream into a display and end in an execute_result", () => {
+  const { output, messages } = recorder();
+  const renderer = new ReplyRenderer(output, "markdown");
+  renderer.chunk("Hello ");
+  renderer.chunk("**world**");
+  renderer.finish("Hello **world**", { webllm_chat: { completion_tokens: 2 } });
+
+  assert.deepEqual(messages.map(([type]) => type), ["display_data", "update_display_data", "update_display_data", "execute_result"]);
+  assert.deepEqual(messages[1][1].data, { "text/markdown": "Hello **world**" });
+  // The live display is blanked, so the reply is shown once
+  assert.deepEqual(messages[2][1].data, {});
+  assert.equal(messages[2][1].transient.display_id, messages[0][1].transient.display_id);
+  assert.deepEqual(messages[3][1], {
+    data: { "text/markdown": "Hello **world**", "text/plain": "Hello **world**" },
+    metadata: { webllm_chat: { completion_tokens: 2 } },
+  });
+});
+
+test("an empty reply still gets an execute_result", () => {
+  const { output, messages } = recorder();
+  new ReplyRenderer(output, "markdown").finish("");
+  assert.deepEqual(messages.map(([type]) => type), ["execute_result"]);
+});
+
+test("plain replies stream to stdout", () => {
+  const { output, messages } = recorder();
+  const renderer = new ReplyRenderer(output, "plain");
+  renderer.chunk("Hello ");
+  renderer.chunk("world");
+  renderer.finish("Hello world");
+  assert.deepEqual(messages, [["stream", "Hello "], ["stream", "world"]]);
+});
+
+test("plain replies keep their metadata in an empty execute_result", () => {
+  const { output, messages } = recorder();
+  const renderer = new ReplyRenderer(output, "plain");
+  renderer.chunk("Hi");
+  renderer.finish("Hi", { webllm_chat: { completion_tokens: 1 } });
+  assert.deepEqual(messages[1], ["execute_result", { data: { "text/plain": "" }, metadata: { webllm_chat: { completion_tokens: 1 } } }]);
+});
@@ -0,0 +1,64 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { generateText, streamText } from "ai";
+import { FakeLanguageModel, fakeProvider, setFakeModelSettings } from "../fakeModel.js";
+
+function reply(model: FakeLanguageModel, prompt = "Hi"): Promise<string> {
+  return generateText({ model, prompt }).then((result) => result.text);
+}
+
+test("fake:echo replies with the last user message", async () => {
+  setFakeModelSettings({ chunkDelayMs: 0 });
+  const text = await generateText({
+    model: new FakeLanguageModel("echo"),
+    messages: [
+      { role: "user", content: "first" },
+      { role: "assistant", content: "reply" },
+      { role: "user", content: "second question" },
+    ],
+  }).then((result) => result.text);
+  assert.equal(text, "second question");
+});
+
+test("fake:script cycles through the responses across model instances", async () => {
+  setFakeModelSettings({ responses: ["one", "two", "three"], chunkDelayMs: 0 });
+  const replies = [];
+  // The engine pool creates a new instance each time a released model is used again
+  for (let i = 0; i < 4; i++) {
+    replies.push(await reply(fakeProvider.createModel("script", () => {}).model as FakeLanguageModel));
+  }
+  assert.deepEqual(replies, ["one", "two", "three", "one"]);
+});
+
+test("fake:script starts over only when the responses change", async () => {
+  setFakeModelSettings({ responses: ["a", "b"], chunkDelayMs: 0 });
+  const model = new FakeLanguageModel("script");
+  assert.equal(await reply(model), "a");
+  setFakeModelSettings({ responses: ["a", "b"], chunkDelayMs: 5 });
+  assert.equal(await reply(model), "b");
+  setFakeModelSettings({ responses: ["x", "y"], chunkDelayMs: 0 });
+  assert.equal(await reply(model), "x");
+});
+
+test("fake:script streams the reply in word chunks with usage", async () => {
+  setFakeModelSettings({ responses: ["The quick brown fox"], chunkDelayMs: 0 });
+  const result = streamText({ model: new FakeLanguageModel("script"), prompt: "Hi" });
+  const chunks = [];
+  for await (const chunk of result.textStream) {
+    chunks.push(chunk);
+  }
+  assert.deepEqual(chunks, ["The ", "quick ", "brown ", "fox"]);
+  assert.equal((await result.totalUsage).outputTokens, 4);
+});
+
+test("max output tokens truncates the reply", async () => {
+  setFakeModelSettings({ responses: ["one two three four"], chunkDelayMs: 0 });
+  const result = await generateText({ model: new FakeLanguageModel("script"), prompt: "Hi", maxOutputTokens: 2 });
+  assert.equal(result.text, "one two ");
+  assert.equal(result.finishReason, "length");
+});
+
+test("!error responses make the model fail", async () => {
+  setFakeModelSettings({ responses: ["!error Out of memory"], chunkDelayMs: 0 });
+  await assert.rejects(reply(new FakeLanguageModel("script")), /Out of memory/);
+});
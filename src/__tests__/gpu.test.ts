@@ -0,0 +1,67 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { type GpuAdapterLike, type GpuEnvironment, detectGpu, checkModelFit, chooseAutoModel, formatGpuReport } from "../gpu.js";
+import { getWebLLMModelRecord } from "../models.js";
+
+const GB = 1 << 30;
+
+function adapter(features: string[], maxStorageBufferBindingSize = GB): GpuAdapterLike {
+  const set = new Set(features);
+  return {
+    features: { has: (feature) => set.has(feature), forEach: (callback) => set.forEach((feature) => callback(feature)) },
+    limits: { maxBufferSize: 2 * GB, maxStorageBufferBindingSize, maxComputeWorkgroupStorageSize: 32768 },
+    info: { vendor: "acme", architecture: "rdna" },
+  };
+}
+
+function env(gpuAdapter: GpuAdapterLike | null, deviceMemory?: number): GpuEnvironment {
+  return {
+    gpu: { requestAdapter: async () => gpuAdapter },
+    deviceMemory,
+    estimateStorage: async () => ({ usage: 0, quota: 10 * GB }),
+  };
+}
+
+test("detectGpu reports the adapter, limits and features", async () => {
+  const report = await detectGpu(env(adapter(["timestamp-query", "shader-f16"]), 8));
+  assert.equal(report.webgpu, true);
+  assert.equal(report.error, null);
+  assert.equal(report.adapter?.vendor, "acme");
+  assert.deepEqual(report.features, ["shader-f16", "timestamp-query"]);
+  assert.equal(report.shaderF16, true);
+  assert.equal(report.limits?.maxStorageBufferBindingSize, GB);
+  assert.equal(report.deviceMemoryGB, 8);
+});
+
+test("detectGpu explains a missing WebGPU or adapter", async () => {
+  const noWebGpu = await detectGpu({});
+  assert.equal(noWebGpu.webgpu, false);
+  assert.match(noWebGpu.error ?? "", /navigator.gpu is missing/);
+  const noAdapter = await detectGpu(env(null, 8));
+  assert.match(noAdapter.error ?? "", /No WebGPU adapter found/);
+  assert.match(formatGpuReport(noAdapter), /Problem: +No WebGPU adapter found/);
+  const record = getWebLLMModelRecord("Llama-3.2-3B-Instruct-q4f16_1-MLC")!;
+  assert.deepEqual(checkModelFit(record, noAdapter), [noAdapter.error]);
+});
+
+test("checkModelFit flags missing features, small bindings and memory", async () => {
+  const report = await detectGpu(env(adapter([], 128 << 20), 4));
+  const problems = checkModelFit(getWebLLMModelRecord("Mistral-7B-Instruct-v0.3-q4f16_1-MLC")!, report);
+  assert.equal(problems.length, 3);
+  assert.match(problems[0], /shader-f16/);
+  assert.match(problems[1], /storage buffer bindings to 128/);
+  assert.match(problems[2], /more than the estimated 2048 MB/);
+});
+
+test("chooseAutoModel picks the largest preferred model that fits", async () => {
+  const features = ["shader-f16"];
+  assert.equal(chooseAutoModel(await detectGpu(env(adapter(features), 16))), "Llama-3.1-8B-Instruct-q4f32_1-MLC");
+  assert.equal(chooseAutoModel(await detectGpu(env(adapter(features), 8))), "Llama-3.2-3B-Instruct-q4f16_1-MLC");
+  // Low-resource models only with 128 MB bindings
+  assert.equal(chooseAutoModel(await detectGpu(env(adapter(features, 128 << 20), 16))), "Llama-3.2-3B-Instruct-q4f16_1-MLC");
+});
+
+test("chooseAutoModel falls back to the smallest model", async () => {
+  assert.equal(chooseAutoModel(await detectGpu(env(adapter(["shader-f16"])))), "SmolLM2-360M-Instruct-q4f16_1-MLC");
+  assert.equal(chooseAutoModel(await detectGpu({})), "SmolLM2-360M-Instruct-q4f16_1-MLC");
+});
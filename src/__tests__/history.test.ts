@@ -0,0 +1,52 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { type HistoryStorage, PersistentHistory } from "../history.js";
+
+// In-memory storage that rejects values over a size limit, like localStorage
+function memoryStorage(maxLength = Infinity): HistoryStorage & { items: Map<string, string> } {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      if (value.length > maxLength) {
+        throw Object.assign(new Error("The quota has been exceeded."), { name: "QuotaExceededError" });
+      }
+      items.set(key, value);
+    },
+  };
+}
+
+test("cells are recorded by session and line", () => {
+  const storage = memoryStorage();
+  const history = new PersistentHistory(storage);
+  history.record(1, "Hi", "Hello!");
+  history.record(2, "%chat reset", null);
+  assert.deepEqual(history.range(0, 1, 0, true), [
+    [history.session, 1, ["Hi", "Hello!"]],
+    [history.session, 2, ["%chat reset", null]],
+  ]);
+  assert.deepEqual(history.search("%chat*", 0, false, false), [[history.session, 2, "%chat reset"]]);
+});
+
+test("kernels started together get their own sessions", () => {
+  const storage = memoryStorage();
+  const first = new PersistentHistory(storage);
+  const second = new PersistentHistory(storage);
+  assert.notEqual(first.session, second.session);
+  first.record(1, "from the first kernel", "a");
+  second.record(1, "from the second kernel", "b");
+  assert.deepEqual(first.range(0, 1, 0, false), [[first.session, 1, "from the first kernel"]]);
+  assert.equal(new PersistentHistory(storage).session, second.session + 1);
+});
+
+test("the oldest entries are dropped when the storage quota is reached", () => {
+  const storage = memoryStorage(2000);
+  const history = new PersistentHistory(storage);
+  for (let line = 1; line <= 50; line++) {
+    history.record(line, `prompt ${line}`, "x".repeat(100));
+  }
+  const items = history.tail(0, false);
+  assert.ok(items.length > 0 && items.length < 50);
+  assert.deepEqual(items[items.length - 1], [history.session, 50, "prompt 50"]);
+});
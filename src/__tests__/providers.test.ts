@@ -0,0 +1,15 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { canonicalModelId, modelSupportsTools } from "../providers.js";
+
+test("canonicalModelId prefixes WebLLM model IDs", () => {
+  assert.equal(canonicalModelId("SmolLM2-360M-Instruct-q4f16_1-MLC"), "webllm:SmolLM2-360M-Instruct-q4f16_1-MLC");
+  assert.equal(canonicalModelId("fake:echo"), "fake:echo");
+});
+
+test("only models with function calling are offered tools", () => {
+  assert.equal(modelSupportsTools("webllm:Hermes-3-Llama-3.1-8B-q4f16_1-MLC"), true);
+  assert.equal(modelSupportsTools("webllm:SmolLM2-360M-Instruct-q4f16_1-MLC"), false);
+  assert.equal(modelSupportsTools("openai-compat:llama3.2:3b"), true);
+  assert.equal(modelSupportsTools("fake:echo"), false);
+});
@@ -0,0 +1,87 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { EnginePool, WebLLMChatService } from "../service.js";
+import { setFakeModelSettings } from "../fakeModel.js";
+import type { ProgressReport } from "../providers.js";
+
+// The fake model reports ten progress steps each time it is loaded
+function countingPool(maxIdle?: number) {
+  const reports: ProgressReport[] = [];
+  const pool = new EnginePool((report) => reports.push(report), maxIdle);
+  return { pool, loads: () => reports.filter((report) => report.progress === 1).length };
+}
+
+test("a released model stays loaded for the next user", async () => {
+  setFakeModelSettings({ chunkDelayMs: 0, loadDelayMs: 10 });
+  const { pool, loads } = countingPool();
+  for (let i = 0; i < 2; i++) {
+    const handle = pool.acquire("fake:echo");
+    await handle.prepare();
+    handle.release();
+  }
+  assert.equal(loads(), 1);
+  assert.deepEqual(pool.status().map(({ model, refs, loaded }) => ({ model, refs, loaded })), [
+    { model: "fake:echo", refs: 0, loaded: true },
+  ]);
+});
+
+test("the least recently used idle models are unloaded", async () => {
+  setFakeModelSettings({ chunkDelayMs: 0, loadDelayMs: 10 });
+  const { pool, loads } = countingPool(1);
+  for (const id of ["fake:echo", "fake:script", "fake:echo"]) {
+    const handle = pool.acquire(id);
+    await handle.prepare();
+    handle.release();
+  }
+  assert.equal(loads(), 3);
+  assert.deepEqual(pool.status().map(({ model }) => model), ["fake:echo"]);
+});
+
+test("consecutive service calls load the model once", async () => {
+  setFakeModelSettings({ responses: ["Hi there"], chunkDelayMs: 0, loadDelayMs: 10 });
+  const { pool, loads } = countingPool();
+  const service = new WebLLMChatService(pool, { model: () => "fake:script", generation: () => ({}) });
+  assert.equal(await service.generate("Hello"), "Hi there");
+  assert.equal(await service.generate("Hello again", { model: "fake:script" }), "Hi there");
+  assert.equal(loads(), 1);
+});
+
+test("a model unloaded while loading is disposed once loaded", async () => {
+  setFakeModelSettings({ chunkDelayMs: 0, loadDelayMs: 10 });
+  const { pool } = countingPool(0);
+  const handle = pool.acquire("fake:echo");
+  let disposed = 0;
+  handle.model.dispose = async () => {
+    disposed++;
+  };
+  const preparing = handle.prepare();
+  handle.release();
+  assert.deepEqual(pool.status(), []);
+  await preparing;
+  assert.equal(disposed, 2);
+});
+
+test("flushing a provider unloads its idle models only", async () => {
+  setFakeModelSettings({ chunkDelayMs: 0, loadDelayMs: 0 });
+  const { pool } = countingPool(2);
+  const idle = pool.acquire("fake:echo");
+  await idle.prepare();
+  idle.release();
+  const inUse = pool.acquire("fake:script");
+  await inUse.prepare();
+  pool.flushIdle("fake");
+  assert.deepEqual(pool.status().map(({ model }) => model), ["fake:script"]);
+  inUse.release();
+});
+
+test("requests without a model wait for the default model to be resolved", async () => {
+  setFakeModelSettings({ chunkDelayMs: 0, loadDelayMs: 0 });
+  const { pool } = countingPool();
+  const service = new WebLLMChatService(pool, {
+    model: () => "fake:script",
+    resolveModel: async () => "fake:echo",
+    generation: () => ({}),
+  });
+  assert.equal(await service.generate("Hello"), "Hello");
+  assert.deepEqual(pool.status().map(({ model }) => model), ["fake:echo"]);
+});
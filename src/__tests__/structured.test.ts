@@ -0,0 +1,29 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseSchema, toValidatedSchema } from "../structured.js";
+
+const PERSON = JSON.stringify({
+  $id: "https://example.com/person",
+  type: "object",
+  properties: { name: { type: "string" } },
+  required: ["name"],
+});
+
+test("a schema with an $id can be used again", async () => {
+  for (let i = 0; i < 2; i++) {
+    const schema = toValidatedSchema(parseSchema(PERSON));
+    assert.deepEqual(await schema.validate!({ name: "Ada" }), { success: true, value: { name: "Ada" } });
+  }
+});
+
+test("parseSchema rejects invalid schemas", () => {
+  assert.throws(() => parseSchema(`{type: "object"}`), /Invalid JSON Schema/);
+  assert.throws(() => parseSchema(`[]`), /expected an object/);
+  assert.throws(() => parseSchema(`{"type": "thing"}`), /Invalid JSON Schema/);
+});
+
+test("generated values are checked against the schema", async () => {
+  const result = await toValidatedSchema(parseSchema(PERSON)).validate!({ age: 3 });
+  assert.equal(result.success, false);
+  assert.match(String((result as any).error.message), /must have required property 'name'/);
+});
@@ -0,0 +1,33 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { expandTemplate, hasPlaceholders, type TemplateContext } from "../templates.js";
+
+function context(): TemplateContext {
+  return {
+    variables: new Map([["topic", "tides"]]),
+    inputs: new Map([[1, "first prompt"], [3, "third prompt"]]),
+    outputs: new Map([[1, "first reply"], [3, "third reply"]]),
+  };
+}
+
+test("expandTemplate fills in variables and cell references", () => {
+  assert.equal(
+    expandTemplate("About {{ topic }}: {{In[1]}} / {{Out[-1]}}", context()),
+    "About tides: first prompt / third reply"
+  );
+});
+
+test("expandTemplate lists every unresolved placeholder", () => {
+  assert.throws(() => expandTemplate("{{a}} {{b}} {{a}}", context()), /Unresolved placeholders: \{\{a\}\}, \{\{b\}\}/);
+});
+
+test("hasPlaceholders detects {{...}}", () => {
+  assert.equal(hasPlaceholders("no braces"), false);
+  assert.equal(hasPlaceholders("{{x}}"), true);
+});
+
+test("a backslash sends {{ as is", () => {
+  const text = "In Handlebars, \\{{#each items}} loops and \\{{name}} prints; here {{topic}}.";
+  assert.equal(hasPlaceholders("only \\{{ braces"), true);
+  assert.equal(expandTemplate(text, context()), "In Handlebars, {{#each items}} loops and {{name}} prints; here tides.");
+});
@@ -0,0 +1,58 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  type SavedConversation,
+  CONVERSATION_FORMAT,
+  parseConversation,
+  exportConversation,
+  exportFormatFromPath,
+} from "../transcript.js";
+
+const conversation: SavedConversation = {
+  format: CONVERSATION_FORMAT,
+  version: 1,
+  model: "fake:echo",
+  system: "Be brief.",
+  generation: { temperature: 0.2 },
+  messages: [
+    { role: "user", content: "Hi" },
+    { role: "assistant", content: "Hello!" },
+  ],
+};
+
+test("saved conversations round-trip through JSON", () => {
+  assert.deepEqual(parseConversation(JSON.parse(JSON.stringify(conversation))), conversation);
+});
+
+test("parseConversation rejects other documents", () => {
+  assert.throws(() => parseConversation({ cells: [] }), /Not a saved conversation/);
+  assert.throws(() => parseConversation({ ...conversation, version: 99 }), /Unsupported conversation version/);
+  assert.throws(
+    () => parseConversation({ ...conversation, messages: [{ role: "system", content: "x" }] }),
+    /messages\[0\] must have role "user"/
+  );
+  assert.throws(
+    () => parseConversation({ ...conversation, messages: [conversation.messages[0]] }),
+    /last turn has no assistant reply/
+  );
+});
+
+test("exports render the transcript in each format", () => {
+  assert.match(exportConversation(conversation, "md") as string, /## User\n\nHi\n\n## Assistant\n\nHello!/);
+  assert.deepEqual(JSON.parse(exportConversation(conversation, "jsonl") as string), {
+    messages: [
+      { role: "system", content: "Be brief." },
+      { role: "user", content: "Hi" },
+      { role: "assistant", content: "Hello!" },
+    ],
+  });
+  const notebook = exportConversation(conversation, "ipynb") as any;
+  assert.equal(notebook.cells[1].source.join(""), "Hi");
+  assert.equal(notebook.cells[1].outputs[0].data["text/markdown"].join(""), "Hello!");
+});
+
+test("exportFormatFromPath reads the file extension", () => {
+  assert.equal(exportFormatFromPath("chat.MD"), "md");
+  assert.equal(exportFormatFromPath("notes/chat.markdown"), "md");
+  assert.equal(exportFormatFromPath("chat.txt"), undefined);
+});
@@ -0,0 +1,178 @@
+// src/args.ts
+// Shell-like argument splitting for %chat magic commands.
+
+/**
+ * Split a magic command line into arguments.
+ *
+ * Arguments are separated by whitespace. Single or double quotes group
+ * whitespace into one argument and may appear in the middle of a word
+ * (e.g. `stop="###"`). Inside double quotes, `\n`, `\t`, `\"` and `\\`
+ * are unescaped so that stop sequences like newlines can be written.
+ *
+ * Text in braces is kept as written, quotes included, up to the matching
+ * closing brace, so that inline JSON such as `--json {"type": "object"}` or
+ * `schema={"type": "string"}` reaches the command unchanged.
+ */
+export function tokenizeArgs(input: string): string[] {
+  const args: string[] = [];
+  let current = "";
+  let inArg = false;
+  let quote: '"' | "'" | null = null;
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+
+    if (quote) {
+      if (ch === quote) {
+        quote = null;
+      } else if (quote === '"' && ch === "\\" && i + 1 < input.length) {
+        const next = input[++i];
+        current += next === "n" ? "\n" : next === "t" ? "\t" : next;
+      } else {
+        current += ch;
+      }
+      continue;
+    }
+
+    if (ch === "{") {
+      const end = findClosingBrace(input, i);
+      if (end === -1) {
+        throw new Error(`Unterminated { brace in: ${input}`);
+      }
+      current += input.slice(i, end + 1);
+      inArg = true;
+      i = end;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+      inArg = true;
+    } else if (/\s/.test(ch)) {
+      if (inArg) {
+        args.push(current);
+        current = "";
+        inArg = false;
+      }
+    } else {
+      current += ch;
+      inArg = true;
+    }
+  }
+
+  if (quote) {
+    throw new Error(`Unterminated ${quote} quote in: ${input}`);
+  }
+  if (inArg) {
+    args.push(current);
+  }
+  return args;
+}
+
+/**
+ * Index of the brace closing the one at `start`, or -1. Braces inside JSON
+ * strings do not count.
+ */
+function findClosingBrace(input: string, start: number): number {
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < input.length; i++) {
+    const ch = input[i];
+    if (inString) {
+      if (ch === "\\") {
+        i++;
+      } else if (ch === '"') {
+        inString = false;
+      }
+    } else if (ch === '"') {
+      inString = true;
+    } else if (ch === "{") {
+      depth++;
+    } else if (ch === "}" && --depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Split a `name=value` argument. Throws if there is no name or no `=`.
+ */
+export function parseAssignment(arg: string): { name: string; value: string } {
+  const eq = arg.indexOf("=");
+  if (eq <= 0) {
+    throw new Error(`Expected name=value, got: ${arg}`);
+  }
+  return { name: arg.slice(0, eq), value: arg.slice(eq + 1) };
+}
+
+export type FlagType = "boolean" | "string" | "number";
+
+export interface ParsedFlags {
+  flags: Record<string, string | number | boolean | string[]>;
+  positionals: string[];
+}
+
+/**
+ * Parse `--name value`, `--name=value` and boolean `--name` options.
+ *
+ * `spec` maps option names (without dashes) to their type. Options listed in
+ * `repeatable` collect every occurrence into an array. Arguments that are not
+ * options are returned as positionals, as is everything after a bare `--`.
+ * Unknown options, missing values and non-numeric numbers throw.
+ */
+export function parseFlags(
+  args: string[],
+  spec: Record<string, FlagType>,
+  repeatable: string[] = []
+): ParsedFlags {
+  const flags: ParsedFlags["flags"] = {};
+  const positionals: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--") {
+      positionals.push(...args.slice(i + 1));
+      break;
+    }
+    if (!arg.startsWith("--") || arg.length === 2) {
+      positionals.push(arg);
+      continue;
+    }
+
+    const eq = arg.indexOf("=");
+    const name = eq > 0 ? arg.slice(2, eq) : arg.slice(2);
+    const type = Object.prototype.hasOwnProperty.call(spec, name) ? spec[name] : undefined;
+    if (!type) {
+      throw new Error(`Unknown option: --${name}. Valid options: ${Object.keys(spec).map((n) => `--${n}`).join(", ")}`);
+    }
+
+    if (type === "boolean") {
+      if (eq > 0) {
+        throw new Error(`Option --${name} does not take a value`);
+      }
+      flags[name] = true;
+      continue;
+    }
+
+    let value: string;
+    if (eq > 0) {
+      value = arg.slice(eq + 1);
+    } else if (i + 1 < args.length) {
+      value = args[++i];
+    } else {
+      throw new Error(`Option --${name} requires a value`);
+    }
+
+    if (type === "number") {
+      const num = value.trim() === "" ? NaN : Number(value);
+      if (!Number.isFinite(num)) {
+        throw new Error(`Option --${name} expects a number, got: ${value}`);
+      }
+      flags[name] = num;
+    } else if (repeatable.includes(name)) {
+      flags[name] = [...((flags[name] as string[] | undefined) ?? []), value];
+    } else {
+      flags[name] = value;
+    }
+  }
+
+  return { flags, positionals };
+}
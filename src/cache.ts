@@ -0,0 +1,160 @@
+// src/cache.ts
+// Browser storage used by downloaded WebLLM models.
+//
+// WebLLM keeps weights, tokenizers and configs in the Cache API under the
+// "webllm/model" and "webllm/config" caches, and compiled model libraries
+// in "webllm/wasm". Entries are keyed by URL, so a model's files are the
+// entries under its weights URL.
+
+import { hasModelInCache, deleteModelAllInfoInCache, type ModelRecord } from "@mlc-ai/web-llm";
+import { formatModelId } from "./providers.js";
+import { getWebLLMAppConfig } from "./models.js";
+
+const WEBLLM_CACHES = ["webllm/model", "webllm/config", "webllm/wasm"];
+
+export interface CachedModel {
+  /** Prefixed model ID, e.g. "webllm:Qwen2.5-0.5B-Instruct-q4f16_1-MLC" */
+  id: string;
+  /** Bytes of weights and tokenizer files in the cache */
+  bytes: number;
+  /** False for interrupted downloads */
+  complete: boolean;
+}
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+// Same normalization WebLLM applies to model URLs before caching
+function modelUrl(record: ModelRecord): string {
+  let url = record.model.endsWith("/") ? record.model : `${record.model}/`;
+  if (!/.+\/resolve\/.+\//.test(url)) {
+    url += "resolve/main/";
+  }
+  return new URL(url).href;
+}
+
+function cacheAvailable(): boolean {
+  return typeof caches !== "undefined";
+}
+
+async function entrySize(cache: Cache, request: Request): Promise<number> {
+  const response = await cache.match(request);
+  if (!response) {
+    return 0;
+  }
+  const length = Number(response.headers.get("content-length"));
+  return Number.isFinite(length) && length > 0 ? length : (await response.blob()).size;
+}
+
+/**
+ * WebLLM models with files in browser storage, largest first.
+ */
+export async function listCachedModels(): Promise<CachedModel[]> {
+  if (!cacheAvailable() || !(await caches.has("webllm/model"))) {
+    return [];
+  }
+  const cache = await caches.open("webllm/model");
+  const requests = await cache.keys();
+  const appConfig = getWebLLMAppConfig();
+  const models: CachedModel[] = [];
+  for (const record of appConfig.model_list) {
+    const prefix = modelUrl(record);
+    const entries = requests.filter((request) => request.url.startsWith(prefix));
+    if (entries.length === 0) {
+      continue;
+    }
+    let bytes = 0;
+    for (const request of entries) {
+      bytes += await entrySize(cache, request);
+    }
+    const complete = await hasModelInCache(record.model_id, appConfig).catch(() => false);
+    models.push({ id: formatModelId("webllm", record.model_id), bytes, complete });
+  }
+  return models.sort((a, b) => b.bytes - a.bytes);
+}
+
+/**
+ * Prefixed IDs of the models that are fully downloaded, for the pickers.
+ */
+export async function getCachedModelIds(): Promise<Set<string>> {
+  try {
+    const models = await listCachedModels();
+    return new Set(models.filter((model) => model.complete).map((model) => model.id));
+  } catch (e) {
+    console.warn("[webllm-chat-kernel] Could not read the model cache:", e);
+    return new Set();
+  }
+}
+
+/**
+ * Delete the weights, tokenizer, config and library of one WebLLM model.
+ */
+export async function deleteCachedModel(modelName: string): Promise<void> {
+  await deleteModelAllInfoInCache(modelName, getWebLLMAppConfig());
+}
+
+/**
+ * Delete all WebLLM caches. Returns the number of caches removed.
+ */
+export async function clearModelCache(): Promise<number> {
+  if (!cacheAvailable()) {
+    return 0;
+  }
+  let removed = 0;
+  for (const name of WEBLLM_CACHES) {
+    if (await caches.delete(name)) {
+      removed++;
+    }
+  }
+  return removed;
+}
+
+/**
+ * The browser's storage estimate for this origin, or null if unsupported.
+ */
+export async function estimateStorage(): Promise<StorageUsage | null> {
+  if (typeof navigator === "undefined" || !navigator.storage?.estimate) {
+    return null;
+  }
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+}
+
+/**
+ * One line per cached model with its size, for %chat cache list.
+ */
+export function formatCachedModels(models: CachedModel[]): string {
+  if (models.length === 0) {
+    return "No WebLLM models are cached in this browser.";
+  }
+  const total = models.reduce((sum, model) => sum + model.bytes, 0);
+  const lines = models.map(
+    (model) => `${formatBytes(model.bytes).padStart(10)}  ${model.id}${model.complete ? "" : " (partial download)"}`
+  );
+  return `Cached models (${models.length}, ${formatBytes(total)}):\n${lines.join("\n")}`;
+}
+
+/**
+ * Storage quota summary, for %chat cache usage.
+ */
+export function formatStorageUsage(storage: StorageUsage, models: CachedModel[]): string {
+  const cached = models.reduce((sum, model) => sum + model.bytes, 0);
+  const percent = storage.quota > 0 ? ` (${((storage.usage / storage.quota) * 100).toFixed(1)}%)` : "";
+  return (
+    `Storage used: ${formatBytes(storage.usage)} of ${formatBytes(storage.quota)}${percent}\n` +
+    `WebLLM models: ${formatBytes(cached)} in ${models.length} model${models.length === 1 ? "" : "s"}`
+  );
+}
+
+export function formatBytes(bytes: number): string {
+  const units = ["B", "KB", "MB", "GB", "TB"];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+}
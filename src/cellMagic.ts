@@ -0,0 +1,87 @@
+// src/cellMagic.ts
+// The %%chat cell magic: a header line with per-cell options, followed by
+// the prompt. Options only apply to that one cell.
+//
+//   %%chat --model Qwen2.5-0.5B-Instruct-q4f16_1-MLC --temperature 0.1 --no-history
+//   Summarize the previous answer in one sentence.
+
+import { tokenizeArgs, parseFlags, type FlagType } from "./args.js";
+import { type GenerationConfig, validateGenerationConfig } from "./generation.js";
+
+export interface CellOptions {
+  /** Model to use for this cell instead of the kernel's current model */
+  model?: string;
+  /** System prompt for this cell instead of the kernel's */
+  system?: string;
+  /** Generation parameters layered over the kernel's */
+  generation: GenerationConfig;
+  /** Whether the conversation history is sent and the turn recorded */
+  history: boolean;
+  /** JSON Schema for structured output, inline or the name of a variable */
+  json?: string;
+  /** Step limit for tool calls in this cell */
+  maxSteps?: number;
+  /** Conversation thread for this cell instead of the current one */
+  thread?: string;
+}
+
+export interface CellMagic {
+  options: CellOptions;
+  body: string;
+}
+
+export const CELL_FLAGS: Record<string, FlagType> = {
+  model: "string",
+  system: "string",
+  temperature: "number",
+  "top-p": "number",
+  "max-tokens": "number",
+  seed: "number",
+  stop: "string",
+  "no-history": "boolean",
+  json: "string",
+  "max-steps": "number",
+  thread: "string",
+};
+
+/**
+ * Parse a %%chat cell. Returns null if the cell does not start with %%chat.
+ * Throws an Error for unknown options or invalid values.
+ */
+export function parseCellMagic(code: string): CellMagic | null {
+  const match = code.replace(/^\s*\n/, "").match(/^%%chat(?:[ \t]+([^\n]*))?(?:\n([\s\S]*))?$/);
+  if (!match) {
+    return null;
+  }
+
+  const { flags, positionals } = parseFlags(tokenizeArgs(match[1] ?? ""), CELL_FLAGS, ["stop"]);
+  if (positionals.length > 0) {
+    throw new Error(`Unexpected argument to %%chat: ${positionals[0]}. Put the prompt on the lines below the %%chat line.`);
+  }
+
+  const maxSteps = flags["max-steps"] as number | undefined;
+  if (maxSteps !== undefined && (!Number.isInteger(maxSteps) || maxSteps < 1)) {
+    throw new Error(`Invalid value for --max-steps: ${maxSteps} (expected a positive integer)`);
+  }
+
+  const generation = validateGenerationConfig({
+    temperature: flags["temperature"],
+    top_p: flags["top-p"],
+    max_tokens: flags["max-tokens"],
+    seed: flags["seed"],
+    stop: flags["stop"],
+  });
+
+  return {
+    options: {
+      model: flags["model"] as string | undefined,
+      system: flags["system"] as string | undefined,
+      generation,
+      history: !flags["no-history"],
+      json: flags["json"] as string | undefined,
+      maxSteps,
+      thread: flags["thread"] as string | undefined,
+    },
+    body: (match[2] ?? "").trim(),
+  };
+}
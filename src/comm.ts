@@ -0,0 +1,85 @@
+// src/comm.ts
+// Message protocol of the `webllm.chat` comm target, which lets widgets and
+// other front-end code use the kernel's model without running cells.
+//
+// Front end -> kernel (comm_msg data):
+//   {type: "generate", id?, prompt, options?}  stream a reply (type may be omitted)
+//   {type: "status"}                            ask for the model status
+//
+// Kernel -> front end:
+//   {type: "chunk", id, text}        a piece of the reply
+//   {type: "done", id, text}         the complete reply
+//   {type: "error", id, ename, message}
+//   {type: "status", model, initialized, progress}
+//   {type: "progress", progress, text}  model download/load progress
+//
+// `options` takes `model`, `system`, `history` (default false, so widget
+// requests stay out of the notebook's conversation) and the generation
+// parameters of %chat config (temperature, top_p, max_tokens, seed, stop).
+
+import { type GenerationConfig, validateGenerationConfig } from "./generation.js";
+import type { ProgressReport } from "./providers.js";
+
+export const COMM_TARGET = "webllm.chat";
+
+export interface CommGenerateRequest {
+  type: "generate";
+  /** Echoed back in replies so front ends can match them to requests */
+  id: string | null;
+  prompt: string;
+  model?: string;
+  system?: string;
+  history: boolean;
+  generation: GenerationConfig;
+}
+
+export interface CommStatusRequest {
+  type: "status";
+}
+
+export type CommRequest = CommGenerateRequest | CommStatusRequest;
+
+export interface CommStatus {
+  type: "status";
+  /** The kernel's model, or the default it will load on first use */
+  model: string;
+  initialized: boolean;
+  /** Last download/load progress report, if the model has been loading */
+  progress: ProgressReport | null;
+}
+
+/**
+ * Validate a comm_msg payload. Throws an Error with a user-facing message.
+ */
+export function parseCommRequest(data: any): CommRequest {
+  if (typeof data !== "object" || data === null) {
+    throw new Error(`Expected an object message, got: ${JSON.stringify(data)}`);
+  }
+  const type = data.type ?? "generate";
+  if (type === "status") {
+    return { type };
+  }
+  if (type !== "generate") {
+    throw new Error(`Unknown message type: ${type}. Use "generate" or "status".`);
+  }
+  if (typeof data.prompt !== "string" || data.prompt.trim() === "") {
+    throw new Error(`Missing prompt: expected {prompt: string, options?: object}`);
+  }
+
+  const { model, system, history, ...generation } = data.options ?? {};
+  if (model !== undefined && typeof model !== "string") {
+    throw new Error(`Invalid option model: expected a string`);
+  }
+  if (system !== undefined && typeof system !== "string") {
+    throw new Error(`Invalid option system: expected a string`);
+  }
+  return {
+    type,
+    id: data.id === undefined || data.id === null ? null : String(data.id),
+    prompt: data.prompt,
+    model,
+    system,
+    history: history === true,
+    generation: validateGenerationConfig(generation),
+  };
+}
@@ -0,0 +1,249 @@
+// src/completion.ts
+// Tab completion for %chat magic commands.
+
+import { CELL_FLAGS } from "./cellMagic.js";
+import { MODEL_SORT_KEYS, listModelFamilies } from "./models.js";
+import { EXPORT_FORMATS } from "./transcript.js";
+import { CONTEXT_STRATEGIES } from "./context.js";
+
+/**
+ * Values that completion draws from; supplied by the kernel so that this
+ * module stays independent of settings and kernel state.
+ */
+export interface CompletionSources {
+  models: string[];
+  personas: string[];
+  configKeys: string[];
+  templates: string[];
+  tools: string[];
+  threads: string[];
+  /** WebLLM models with files in browser storage */
+  cachedModels: string[];
+}
+
+export interface CompletionResult {
+  matches: string[];
+  cursor_start: number;
+  cursor_end: number;
+}
+
+// Subcommands of %chat, in the order they are offered
+export const CHAT_SUBCOMMANDS = [
+  "model",
+  "list",
+  "info",
+  "providers",
+  "doctor",
+  "system",
+  "persona",
+  "config",
+  "set",
+  "unset",
+  "template",
+  "tools",
+  "cache",
+  "stats",
+  "output",
+  "history",
+  "reset",
+  "thread",
+  "context",
+  "pin",
+  "unpin",
+  "save",
+  "load",
+  "export",
+  "help",
+];
+
+// Fixed argument values per subcommand
+const SUBCOMMAND_VALUES = new Map<string, string[]>([
+  ["system", ["--clear", "--default"]],
+  ["config", ["--reset"]],
+  ["output", ["markdown", "plain"]],
+  ["template", ["list", "save", "show", "use", "delete"]],
+  ["tools", ["list", "show", "delete"]],
+  ["cache", ["list", "delete", "clear", "usage"]],
+  ["stats", ["reset", "footer"]],
+  ["thread", ["list", "new", "switch", "delete"]],
+  ["context", ["strategy"]],
+  ["unpin", ["--all"]],
+]);
+
+/**
+ * Rank candidates against a query. Case-insensitive prefix matches come
+ * first, then substring matches, then subsequence ("fuzzy") matches with
+ * the tightest span first, e.g. "llama3b" finds "Llama-3.2-3B-Instruct-...".
+ * A "provider:" prefix on a candidate is ignored unless the query has one.
+ */
+export function fuzzyMatch(query: string, candidates: string[]): string[] {
+  if (!query) {
+    return [...candidates];
+  }
+  const q = query.toLowerCase();
+  const scored: { candidate: string; score: number }[] = [];
+
+  for (const candidate of candidates) {
+    // Match "webllm:Llama-..." on "Llama-..." unless a prefix was typed
+    const c = (q.includes(":") ? candidate : candidate.slice(candidate.indexOf(":") + 1)).toLowerCase();
+    const index = c.indexOf(q);
+    if (index === 0) {
+      scored.push({ candidate, score: 0 });
+      continue;
+    }
+    if (index > 0) {
+      scored.push({ candidate, score: 1 + index / 1000 });
+      continue;
+    }
+    // Subsequence match: every query character appears in order
+    let pos = -1;
+    let start = -1;
+    for (const ch of q) {
+      pos = c.indexOf(ch, pos + 1);
+      if (pos === -1) {
+        break;
+      }
+      if (start === -1) {
+        start = pos;
+      }
+    }
+    if (pos !== -1) {
+      scored.push({ candidate, score: 2 + (pos - start) / 1000 });
+    }
+  }
+
+  return scored
+    .sort((a, b) => a.score - b.score || a.candidate.localeCompare(b.candidate))
+    .map((s) => s.candidate);
+}
+
+function prefixMatch(query: string, candidates: string[]): string[] {
+  return candidates.filter((c) => c.startsWith(query));
+}
+
+/**
+ * Complete a %chat magic at the cursor. Returns null when the cursor is not
+ * on a %chat line, so the caller can fall back to no completions.
+ */
+export function completeMagic(
+  code: string,
+  cursorPos: number,
+  sources: CompletionSources
+): CompletionResult | null {
+  const lineStart = code.lastIndexOf("\n", cursorPos - 1) + 1;
+  const before = code.slice(lineStart, cursorPos);
+
+  // The word under the cursor extends to the next whitespace on both sides
+  const wordStart = cursorPos - (before.match(/\S*$/)?.[0].length ?? 0);
+  const after = code.slice(cursorPos).match(/^\S*/)?.[0] ?? "";
+  const word = code.slice(wordStart, cursorPos);
+  const range = { cursor_start: wordStart, cursor_end: cursorPos + after.length };
+
+  const words = before.trimStart().split(/\s+/);
+  // Completing the magic name itself, e.g. "%ch"
+  if (words.length === 1) {
+    return word.startsWith("%") ? { matches: prefixMatch(word, ["%chat", "%%chat", "%%tool"]), ...range } : null;
+  }
+  // %%chat takes options for the cell, only on its first line
+  if (words[0] === "%%chat") {
+    if (code.slice(0, lineStart).trim() !== "") {
+      return null;
+    }
+    const previous = words[words.length - 2];
+    if (previous === "--model") {
+      return { matches: fuzzyMatch(word, sources.models), ...range };
+    }
+    if (previous === "--thread") {
+      return { matches: prefixMatch(word, sources.threads), ...range };
+    }
+    return { matches: word.startsWith("-") ? prefixMatch(word, Object.keys(CELL_FLAGS).map((flag) => `--${flag}`)) : [], ...range };
+  }
+  if (words[0] !== "%chat") {
+    return null;
+  }
+
+  if (words.length === 2) {
+    return { matches: prefixMatch(word, CHAT_SUBCOMMANDS), ...range };
+  }
+
+  const subcommand = words[1];
+  let matches: string[] = [];
+  switch (subcommand) {
+    case "model":
+    case "info":
+      matches = words.length === 3 ? fuzzyMatch(word, sources.models) : [];
+      break;
+    case "persona":
+      matches = words.length === 3 ? prefixMatch(word, sources.personas) : [];
+      break;
+    case "config":
+      // Complete parameter names, not values
+      matches = word.includes("=")
+        ? []
+        : prefixMatch(word, [...sources.configKeys.map((key) => `${key}=`), ...SUBCOMMAND_VALUES.get("config")!]);
+      break;
+    case "template":
+      if (words.length === 3) {
+        matches = prefixMatch(word, SUBCOMMAND_VALUES.get("template")!);
+      } else if (words.length === 4 && ["show", "use", "delete"].includes(words[2])) {
+        matches = prefixMatch(word, sources.templates);
+      }
+      break;
+    case "list": {
+      const previous = words[words.length - 2];
+      if (previous === "--family") {
+        matches = fuzzyMatch(word, listModelFamilies());
+      } else if (previous === "--sort") {
+        matches = prefixMatch(word, [...MODEL_SORT_KEYS]);
+      } else if (word.startsWith("-")) {
+        matches = prefixMatch(word, ["--family", "--max-vram", "--low-resource", "--sort"]);
+      }
+      break;
+    }
+    case "cache":
+      if (words.length === 3) {
+        matches = prefixMatch(word, SUBCOMMAND_VALUES.get("cache")!);
+      } else if (words.length === 4 && words[2] === "delete") {
+        matches = fuzzyMatch(word, sources.cachedModels);
+      }
+      break;
+    case "stats":
+      if (words.length === 3) {
+        matches = prefixMatch(word, SUBCOMMAND_VALUES.get("stats")!);
+      } else if (words.length === 4 && words[2] === "footer") {
+        matches = prefixMatch(word, ["on", "off"]);
+      }
+      break;
+    case "context":
+      if (words.length === 3) {
+        matches = prefixMatch(word, SUBCOMMAND_VALUES.get("context")!);
+      } else if (words.length === 4 && words[2] === "strategy") {
+        matches = prefixMatch(word, [...CONTEXT_STRATEGIES, "--default"]);
+      }
+      break;
+    case "export":
+      if (words[words.length - 2] === "--format") {
+        matches = prefixMatch(word, [...EXPORT_FORMATS]);
+      } else if (word.startsWith("-")) {
+        matches = prefixMatch(word, ["--format"]);
+      }
+      break;
+    case "thread":
+      if (words.length === 3) {
+        matches = prefixMatch(word, SUBCOMMAND_VALUES.get("thread")!);
+      } else if (words.length === 4 && ["switch", "delete"].includes(words[2])) {
+        matches = prefixMatch(word, sources.threads);
+      }
+      break;
+    case "tools":
+      if (words.length === 3) {
+        matches = prefixMatch(word, SUBCOMMAND_VALUES.get("tools")!);
+      } else if (words.length === 4 && ["show", "delete"].includes(words[2])) {
+        matches = prefixMatch(word, sources.tools);
+      }
+      break;
+    default:
+      matches = words.length === 3 ? prefixMatch(word, SUBCOMMAND_VALUES.get(subcommand) ?? []) : [];
+  }
+  return { matches, ...range };
+}
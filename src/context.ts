@@ -0,0 +1,137 @@
+// src/context.ts
+// Keeping conversations within the model's context window.
+//
+// Prompt sizes are estimated from character counts, since the tokenizer
+// lives inside the WebLLM engine. The estimate errs on the large side so
+// that trimming happens before the engine fails. When the system prompt,
+// history, prompt and room for the reply do not fit, turns are removed
+// according to the strategy:
+//
+//   drop-oldest  drop the oldest turns
+//   keep-pinned  drop the oldest turns that are not pinned (%chat pin)
+//   summarize    replace the oldest unpinned turns with a summary written
+//                by the model, sent along with the system prompt
+//   off          send everything and let the model fail
+
+import type { ModelMessage } from "ai";
+import { parseModelId, getModelIdInfo } from "./providers.js";
+import { messageText } from "./transcript.js";
+
+export const CONTEXT_STRATEGIES = ["drop-oldest", "keep-pinned", "summarize", "off"] as const;
+
+export type ContextStrategy = (typeof CONTEXT_STRATEGIES)[number];
+
+export function isContextStrategy(value: string): value is ContextStrategy {
+  return (CONTEXT_STRATEGIES as readonly string[]).includes(value);
+}
+
+export interface ContextSettings {
+  strategy: ContextStrategy;
+  /** Tokens kept free for the reply when max_tokens is not set */
+  reserveTokens: number;
+}
+
+export const DEFAULT_CONTEXT_SETTINGS: ContextSettings = { strategy: "drop-oldest", reserveTokens: 512 };
+
+// Most tokenizers average 3.5-4.5 characters per token on English text;
+// a lower ratio overestimates, which is the safe side
+const CHARS_PER_TOKEN = 3;
+
+// Role markers and separators the chat template adds to every message
+const MESSAGE_OVERHEAD_TOKENS = 8;
+
+// WebLLM's default when a model record does not override the window
+const DEFAULT_WEBLLM_CONTEXT_WINDOW = 4096;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function estimateMessageTokens(message: ModelMessage): number {
+  return estimateTokens(messageText(message)) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+/**
+ * Context window of a model in tokens, or null if unknown (models of other
+ * providers, whose limits are not known to the kernel).
+ */
+export function getContextWindow(modelId: string): number | null {
+  if (parseModelId(modelId).provider.id !== "webllm") {
+    return null;
+  }
+  return getModelIdInfo(modelId)?.contextWindow ?? DEFAULT_WEBLLM_CONTEXT_WINDOW;
+}
+
+/**
+ * Validate the context settings, e.g. the ones stored in Settings.
+ */
+export function validateContextSettings(raw: any): ContextSettings {
+  const settings = { ...DEFAULT_CONTEXT_SETTINGS };
+  if (raw?.strategy !== undefined) {
+    if (!isContextStrategy(raw.strategy)) {
+      throw new Error(`Invalid context strategy: ${raw.strategy}. Use ${CONTEXT_STRATEGIES.join(", ")}.`);
+    }
+    settings.strategy = raw.strategy;
+  }
+  if (raw?.reserveTokens !== undefined) {
+    if (!Number.isInteger(raw.reserveTokens) || raw.reserveTokens < 0) {
+      throw new Error(`Invalid reserveTokens: ${raw.reserveTokens} (expected a non-negative integer)`);
+    }
+    settings.reserveTokens = raw.reserveTokens;
+  }
+  return settings;
+}
+
+/**
+ * Choose the turns to remove so that the prompt fits in `limit` tokens.
+ * Turns are removed oldest first, skipping pinned turns if `keepPinned`.
+ *
+ * @param turnTokens - Estimated tokens of each turn, oldest first
+ * @param pinned - Whether each turn is pinned
+ * @param fixedTokens - Tokens sent besides the turns (system prompt, prompt)
+ * @returns Indices of the turns to remove, and whether the rest fits
+ */
+export function selectTurnsToRemove(
+  turnTokens: number[],
+  pinned: boolean[],
+  fixedTokens: number,
+  limit: number,
+  keepPinned: boolean
+): { remove: number[]; fits: boolean } {
+  let total = fixedTokens + turnTokens.reduce((sum, tokens) => sum + tokens, 0);
+  const remove: number[] = [];
+  for (let turn = 0; turn < turnTokens.length && total > limit; turn++) {
+    if (keepPinned && pinned[turn]) {
+      continue;
+    }
+    remove.push(turn);
+    total -= turnTokens[turn];
+  }
+  return { remove, fits: total <= limit };
+}
+
+/**
+ * Instruction for summarizing the removed turns, including the summary of
+ * turns removed earlier.
+ */
+export function summaryPrompt(turns: ModelMessage[], previousSummary: string | null): string {
+  const transcript = turns
+    .map((message) => `${message.role === "user" ? "User" : "Assistant"}: ${messageText(message)}`)
+    .join("\n\n");
+  return (
+    "Summarize the following conversation in at most 150 words. Keep names, facts, numbers, " +
+    "decisions and open questions; leave out pleasantries. Reply with the summary only.\n\n" +
+    (previousSummary ? `Summary of the conversation before this part:\n${previousSummary}\n\n` : "") +
+    `Conversation:\n${transcript}`
+  );
+}
+
+/**
+ * System prompt with the summary of removed turns appended.
+ */
+export function withSummary(system: string, summary: string | null): string {
+  if (!summary) {
+    return system;
+  }
+  return [system, `Summary of the earlier conversation:\n${summary}`].filter(Boolean).join("\n\n");
+}
@@ -0,0 +1,92 @@
+// src/display.ts
+// Rich output helpers shared by the kernel's displays.
+
+import type { ProgressReport } from "./providers.js";
+
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (ch) => `&#${ch.charCodeAt(0)};`);
+}
+
+/**
+ * Render a model download/load progress report as an HTML progress bar
+ * with the phase text, and a text bar for front ends without HTML.
+ */
+export function formatProgress(report: ProgressReport): { "text/html": string; "text/plain": string } {
+  const fraction = Math.min(Math.max(report.progress || 0, 0), 1);
+  const percent = Math.round(fraction * 100);
+  const text = report.text || "Loading model";
+  const filled = Math.round(fraction * 30);
+  return {
+    "text/html":
+      `<div><progress value="${fraction}" max="1" style="width: 100%"></progress>` +
+      `<div style="font-size: smaller">${percent}% &mdash; ${escapeHtml(text)}</div></div>`,
+    "text/plain": `[${"#".repeat(filled)}${" ".repeat(30 - filled)}] ${percent}% ${text}`,
+  };
+}
+
+export type OutputMode = "markdown" | "plain";
+
+export interface DisplayContent {
+  data: Record<string, string>;
+  metadata: Record<string, unknown>;
+  transient?: { display_id: string };
+}
+
+/**
+ * The kernel's output messages for a cell's reply.
+ */
+export interface ReplyOutput {
+  /** Write to the cell's stdout */
+  stream(text: string): void;
+  displayData(content: DisplayContent): void;
+  updateDisplayData(content: DisplayContent): void;
+  /** Publish the cell's execute_result */
+  publishExecuteResult(content: Omit<DisplayContent, "transient">): void;
+}
+
+/**
+ * Shows a reply while it streams and publishes the complete reply.
+ *
+ * In Markdown mode the chunks go to a display_data that is refreshed as they
+ * arrive; once the reply is complete the display is blanked and the full text
+ * is published as the cell's execute_result. On error or interrupt finish()
+ * is not called, so the display keeps the partial reply. In plain mode the
+ * chunks are written to stdout, and the execute_result only carries the
+ * metadata (e.g. the reply statistics) with empty text.
+ */
+export class ReplyRenderer {
+  private text = "";
+  private displayed = false;
+  private displayId = `webllm-reply-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+  constructor(private output: ReplyOutput, private mode: OutputMode) {}
+
+  chunk(chunk: string): void {
+    if (this.mode === "plain") {
+      this.output.stream(chunk);
+      return;
+    }
+    this.text += chunk;
+    const content = { data: { "text/markdown": this.text }, metadata: {}, transient: { display_id: this.displayId } };
+    if (!this.displayed) {
+      this.displayed = true;
+      this.output.displayData(content);
+    } else {
+      this.output.updateDisplayData(content);
+    }
+  }
+
+  finish(reply: string, metadata: Record<string, unknown> = {}): void {
+    if (this.mode === "plain") {
+      if (Object.keys(metadata).length > 0) {
+        this.output.publishExecuteResult({ data: { "text/plain": "" }, metadata });
+      }
+      return;
+    }
+    // Blank the live display so the reply isn't shown twice
+    if (this.displayed) {
+      this.output.updateDisplayData({ data: {}, metadata: {}, transient: { display_id: this.displayId } });
+    }
+    this.output.publishExecuteResult({ data: { "text/markdown": reply, "text/plain": reply }, metadata });
+  }
+}
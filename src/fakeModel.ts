@@ -0,0 +1,210 @@
+// src/fakeModel.ts
+// Deterministic, scripted language model for offline notebooks and tests.
+//
+// The fake model implements the same AI SDK language model interface as the
+// real providers, so it goes through `streamText`, progress events, magics
+// and interrupts exactly like WebLLM does, but needs no WebGPU or network.
+//
+//   fake:echo    replies with the last user message
+//   fake:script  replies with the configured responses, in turn
+//
+// A scripted response starting with "!error " makes the model fail with the
+// rest of the line as the error message.
+
+import type { ChatModel, ModelProvider, ProgressReport } from "./providers.js";
+
+type CallOptions = Parameters<ChatModel["doStream"]>[0];
+type StreamPart = ChatModel["doStream"] extends (...args: any[]) => PromiseLike<{ stream: ReadableStream<infer P> }>
+  ? P
+  : never;
+
+export interface FakeModelSettings {
+  /** Responses used by fake:script, cycled in order */
+  responses: string[];
+  /** Delay between streamed chunks, in milliseconds */
+  chunkDelayMs: number;
+  /** Simulated model download time, in milliseconds; 0 means already loaded */
+  loadDelayMs: number;
+}
+
+const DEFAULT_FAKE_SETTINGS: FakeModelSettings = {
+  responses: ["This is a scripted reply from the fake model."],
+  chunkDelayMs: 20,
+  loadDelayMs: 0,
+};
+
+let fakeSettings: FakeModelSettings = { ...DEFAULT_FAKE_SETTINGS };
+
+// Script position per model ID. Kept outside the model instances, which the
+// engine pool creates anew whenever a model is used again after release.
+const scriptTurns = new Map<string, number>();
+
+/**
+ * Update the fake model settings. Missing values fall back to the defaults.
+ * The script starts over only if the responses changed.
+ */
+export function setFakeModelSettings(settings: Partial<FakeModelSettings>): void {
+  const responses = settings.responses?.length ? settings.responses : DEFAULT_FAKE_SETTINGS.responses;
+  if (JSON.stringify(responses) !== JSON.stringify(fakeSettings.responses)) {
+    scriptTurns.clear();
+  }
+  fakeSettings = {
+    responses,
+    chunkDelayMs: settings.chunkDelayMs ?? DEFAULT_FAKE_SETTINGS.chunkDelayMs,
+    loadDelayMs: settings.loadDelayMs ?? DEFAULT_FAKE_SETTINGS.loadDelayMs,
+  };
+}
+
+export const FAKE_MODELS = ["echo", "script"];
+
+function sleep(ms: number, abortSignal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (ms <= 0 || abortSignal?.aborted) {
+      resolve();
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    abortSignal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+/**
+ * Split text into word-sized chunks, keeping the whitespace, so that the
+ * chunks concatenate back to the original text.
+ */
+function splitChunks(text: string): string[] {
+  return text.match(/\s*\S+\s*/g) ?? (text ? [text] : []);
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+function promptText(options: CallOptions): { all: string; lastUser: string } {
+  let all = "";
+  let lastUser = "";
+  for (const message of options.prompt) {
+    const text = typeof message.content === "string"
+      ? message.content
+      : message.content.map((part: any) => (part.type === "text" ? part.text : "")).join("");
+    all += text + "\n";
+    if (message.role === "user") {
+      lastUser = text;
+    }
+  }
+  return { all, lastUser };
+}
+
+export class FakeLanguageModel implements ChatModel {
+  readonly specificationVersion = "v2";
+  readonly provider = "fake";
+  readonly modelId: string;
+  readonly supportedUrls = {};
+
+  constructor(modelId: string) {
+    this.modelId = modelId;
+  }
+
+  /**
+   * Pick the reply for this call and advance the script.
+   */
+  private nextReply(options: CallOptions): string {
+    if (this.modelId === "echo") {
+      return promptText(options).lastUser;
+    }
+    const { responses } = fakeSettings;
+    const turn = scriptTurns.get(this.modelId) ?? 0;
+    scriptTurns.set(this.modelId, turn + 1);
+    return responses[turn % responses.length];
+  }
+
+  private plan(options: CallOptions) {
+    const reply = this.nextReply(options);
+    const error = reply.startsWith("!error ") ? reply.slice("!error ".length) : null;
+    let chunks = error ? [] : splitChunks(reply);
+    let finishReason: "stop" | "length" = "stop";
+    // One chunk stands in for one token
+    if (options.maxOutputTokens !== undefined && chunks.length > options.maxOutputTokens) {
+      chunks = chunks.slice(0, options.maxOutputTokens);
+      finishReason = "length";
+    }
+    const usage = {
+      inputTokens: countWords(promptText(options).all),
+      outputTokens: chunks.length,
+      totalTokens: countWords(promptText(options).all) + chunks.length,
+    };
+    return { error, chunks, finishReason, usage };
+  }
+
+  async doGenerate(options: CallOptions) {
+    const { error, chunks, finishReason, usage } = this.plan(options);
+    if (error) {
+      throw new Error(error);
+    }
+    return {
+      content: [{ type: "text" as const, text: chunks.join("") }],
+      finishReason,
+      usage,
+      warnings: [],
+    };
+  }
+
+  async doStream(options: CallOptions) {
+    const { error, chunks, finishReason, usage } = this.plan(options);
+    const { chunkDelayMs } = fakeSettings;
+    const abortSignal = options.abortSignal;
+
+    const stream = new ReadableStream<StreamPart>({
+      async start(controller) {
+        controller.enqueue({ type: "stream-start", warnings: [] });
+        if (error) {
+          controller.enqueue({ type: "error", error: new Error(error) });
+          controller.close();
+          return;
+        }
+        controller.enqueue({ type: "text-start", id: "0" });
+        for (const chunk of chunks) {
+          await sleep(chunkDelayMs, abortSignal);
+          if (abortSignal?.aborted) {
+            controller.error(new DOMException("The operation was aborted.", "AbortError"));
+            return;
+          }
+          controller.enqueue({ type: "text-delta", id: "0", delta: chunk });
+        }
+        controller.enqueue({ type: "text-end", id: "0" });
+        controller.enqueue({ type: "finish", finishReason, usage });
+        controller.close();
+      },
+    });
+    return { stream };
+  }
+}
+
+export const fakeProvider: ModelProvider = {
+  id: "fake",
+  label: "Scripted fake model (offline, for tests)",
+  unavailableMessage: "The fake model is always available.",
+  listModels: () => FAKE_MODELS,
+  isValidModel: (name) => FAKE_MODELS.includes(name),
+  createModel(name) {
+    const model = new FakeLanguageModel(name);
+    let loaded = fakeSettings.loadDelayMs <= 0;
+    return {
+      model,
+      availability: async () => (loaded ? "available" : "downloadable"),
+      // Simulate a download in ten steps so progress reporting can be exercised
+      prepare: async (progress: (report: ProgressReport) => void) => {
+        const steps = 10;
+        for (let i = 1; i <= steps; i++) {
+          await sleep(fakeSettings.loadDelayMs / steps);
+          const report = { progress: i / steps, text: `Loading fake model [${i}/${steps}]` };
+          progress(report);
+        }
+        loaded = true;
+      },
+    };
+  },
+};
@@ -1,9 +1,91 @@
 // src/federation.ts
 // Module Federation container for JupyterLite
 
-import { streamText } from "ai";
-import { webLLM } from "@built-in-ai/web-llm";
-import { WEBLLM_MODELS, DEFAULT_WEBLLM_MODEL, isValidWebLLMModel } from "./models.js";
+import { streamText, generateText, generateObject, stepCountIs, tool, jsonSchema, NoObjectGeneratedError, type JSONSchema7, type LanguageModelUsage, type ModelMessage, type ToolSet } from "ai";
+import {
+  type ModelFilter,
+  type ModelSortKey,
+  DEFAULT_WEBLLM_MODEL,
+  MODEL_CATALOG,
+  MODEL_SORT_KEYS,
+  filterModels,
+  sortModels,
+  summarizeModel,
+  validateCustomModels,
+  setCustomModels,
+  getCustomModelErrors,
+  getWebLLMModelRecord,
+  AUTO_MODEL,
+} from "./models.js";
+import { type GpuReport, detectGpu, checkModelFit, chooseAutoModel, formatGpuReport } from "./gpu.js";
+import {
+  type SavedConversation,
+  CONVERSATION_FORMAT,
+  CONVERSATION_VERSION,
+  EXPORT_FORMATS,
+  isExportFormat,
+  exportFormatFromPath,
+  parseConversation,
+  exportConversation,
+} from "./transcript.js";
+import { type ReplyStats, SessionStats, measureReply, statsMetadata, formatStatsFooter } from "./stats.js";
+import {
+  type ContextSettings,
+  type ContextStrategy,
+  CONTEXT_STRATEGIES,
+  DEFAULT_CONTEXT_SETTINGS,
+  isContextStrategy,
+  estimateTokens,
+  estimateMessageTokens,
+  getContextWindow,
+  validateContextSettings,
+  selectTurnsToRemove,
+  summaryPrompt,
+  withSummary,
+} from "./context.js";
+import {
+  type ProviderModel,
+  type ProgressReport,
+  parseModelId,
+  formatModelId,
+  canonicalModelId,
+  describeModelId,
+  isValidModelId,
+  modelSupportsTools,
+  getModelIdInfo,
+  groupModelIds,
+  listModelIds,
+  listProviders,
+  setOpenAICompatibleSettings,
+} from "./providers.js";
+import { setFakeModelSettings } from "./fakeModel.js";
+import { completeMagic } from "./completion.js";
+import { PersistentHistory } from "./history.js";
+import { type TemplateContext, VARIABLE_NAME, expandTemplate, hasPlaceholders } from "./templates.js";
+import { tokenizeArgs, parseAssignment, parseFlags } from "./args.js";
+import { parseCellMagic } from "./cellMagic.js";
+import { parseSchema, schemaInstruction, toValidatedSchema } from "./structured.js";
+import { type NotebookTool, parseToolCell, formatToolCall } from "./tools.js";
+import { type OutputMode, ReplyRenderer, formatProgress } from "./display.js";
+import {
+  listCachedModels,
+  getCachedModelIds,
+  deleteCachedModel,
+  clearModelCache,
+  estimateStorage,
+  formatCachedModels,
+  formatStorageUsage,
+} from "./cache.js";
+import { type CommStatus, type CommGenerateRequest, COMM_TARGET, parseCommRequest } from "./comm.js";
+import { type PooledModel, type IWebLLMChatService, EnginePool, WebLLMChatService } from "./service.js";
+import {
+  type GenerationConfig,
+  GENERATION_KEYS,
+  validateGenerationConfig,
+  parseGenerationAssignments,
+  formatGenerationConfig,
+  toCallSettings,
+} from "./generation.js";
 
 declare const window: any;
 
@@ -15,14 +97,254 @@ let sharedScope: any = null;
 // Module-level storage for the settings-based default model
 let settingsDefaultModel: string | null = null;
 
+// Module-level storage for the settings-based system prompt and personas
+let settingsSystemPrompt: string = "";
+let settingsPersonas: Record<string, string> = {};
+
+// Module-level storage for the settings-based prompt templates
+let settingsTemplates: Record<string, string> = {};
+
+// Module-level storage for the settings-based generation parameters
+let settingsGeneration: GenerationConfig = {};
+
+// Module-level storage for the settings-based tool step limit
+let settingsMaxToolSteps: number = 5;
+
+// Module-level storage for the settings-based context window management
+let settingsContext: ContextSettings = DEFAULT_CONTEXT_SETTINGS;
+
+// Module-level storage for the settings-based reply statistics footer
+let settingsStatsFooter: boolean = false;
+
+// Module-level storage for the JupyterLite contents manager, set on activation
+let contentsManager: any = null;
+
+function getContentsManager(): any {
+  if (!contentsManager) {
+    throw new Error("The JupyterLite Contents API is not available.");
+  }
+  return contentsManager;
+}
+
+// GPU capabilities, detected once per page on first use
+let gpuReport: Promise<GpuReport> | null = null;
+
+// Model picked for the "auto" default model setting, once the GPU is known
+let autoDefaultModel: string | null = null;
+
+function getGpuReport(): Promise<GpuReport> {
+  return (gpuReport ??= detectGpu());
+}
+
 /**
  * Get the default model from settings, falling back to the hardcoded default.
- * This is called when the kernel is first initialized.
+ * With "auto", this is the fallback until the GPU is detected; anything
+ * that loads the model uses resolveDefaultModel() instead.
  */
 function getDefaultModel(): string {
+  if (settingsDefaultModel === AUTO_MODEL) {
+    return autoDefaultModel ?? DEFAULT_WEBLLM_MODEL;
+  }
   return settingsDefaultModel ?? DEFAULT_WEBLLM_MODEL;
 }
 
+/**
+ * Get the default model, detecting the GPU first if the setting is "auto".
+ */
+async function resolveDefaultModel(): Promise<string> {
+  if (settingsDefaultModel === AUTO_MODEL && autoDefaultModel === null) {
+    autoDefaultModel = chooseAutoModel(await getGpuReport());
+    console.log("[webllm-chat-kernel] Auto-selected default model:", autoDefaultModel);
+  }
+  return getDefaultModel();
+}
+
+/**
+ * Warning for a WebLLM model that will likely not load or run out of GPU
+ * memory, or null. Missing WebGPU is left to the availability check.
+ */
+async function getModelFitWarning(modelId: string): Promise<string | null> {
+  const { provider, name } = parseModelId(modelId);
+  const record = provider.id === "webllm" ? getWebLLMModelRecord(name) : undefined;
+  const report = await getGpuReport();
+  if (!record || !report.limits) {
+    return null;
+  }
+  const problems = checkModelFit(record, report);
+  if (problems.length === 0) {
+    return null;
+  }
+  return `Warning: ${canonicalModelId(modelId)} may fail to load or run out of memory: ${problems.join("; ")}.
+` +
+    `Run "%chat doctor" to inspect the GPU, or "%chat list --low-resource" for smaller models.`;
+}
+
+// Help text for "%chat" and "%chat help"
+const CHAT_HELP = `WebLLM Chat Kernel Magic Commands:
+
+  %chat model            - Show current model
+  %chat model <name>     - Switch to a different model (e.g., "webllm:<id>", "openai-compat:<id>")
+  %chat info [name]      - Show model details (VRAM, context window, quantization, ...)
+  %chat providers        - List model providers
+  %chat doctor           - Check WebGPU support, GPU limits and storage quota
+  %chat list             - List all available models
+  %chat list <filter>    - List models matching filter (e.g., "%chat list llama")
+  %chat list --family <name> --max-vram <MB> --low-resource --sort name|size|vram|context
+                         - Filter and sort WebLLM models by catalog data
+  %chat system           - Show the system prompt
+  %chat system <text>    - Set the system prompt for the current thread
+  %chat system --clear   - Send no system prompt in the current thread
+  %chat system --default - Use the system prompt from Settings
+  %chat persona          - List personas defined in Settings
+  %chat persona <name>   - Use a persona's system prompt
+  %chat config           - Show generation parameters
+  %chat config k=v ...   - Set parameters (e.g., "%chat config temperature=0.2 max_tokens=512 stop=\"###\"")
+  %chat config --reset   - Use the generation parameters from Settings
+  %chat set name=value   - Set a variable, used as {{name}} in prompts
+  %chat set              - Show variables
+  %chat unset <name>     - Remove a variable
+  %chat template save <name> <text>
+                         - Save a prompt template (text may follow on the next lines)
+  %chat template use <name> [name=value ...]
+                         - Send a template with its placeholders filled in
+  %chat template list    - List templates (also: show <name>, delete <name>)
+  %chat stats            - Show token usage and speed per model for this session
+  %chat stats reset      - Clear the session statistics
+  %chat stats footer on|off
+                         - Show usage and speed under each reply
+  %chat output           - Show how replies are rendered
+  %chat output <mode>    - Render replies as "markdown" (default) or "plain" text
+  %chat history          - Show the conversation history
+  %chat reset            - Clear the conversation history
+  %chat thread list      - List conversation threads
+  %chat thread new <name> - Start a thread with its own history, system prompt and parameters
+  %chat thread switch <name> - Continue another thread (the kernel starts in "main")
+  %chat thread delete <name> - Delete a thread other than the current one
+  %chat context          - Show context window usage
+  %chat context strategy <name>
+                         - Handle long conversations: drop-oldest, keep-pinned, summarize or off
+  %chat pin [turn]       - Keep a turn (default: the last) when trimming the context
+  %chat unpin [turn|--all] - Unpin turns
+  %chat save <path>      - Save the conversation, system prompt and parameters as JSON
+  %chat load <path>      - Continue a conversation saved with %chat save
+  %chat export <path> [--format md|ipynb|jsonl]
+                         - Export the transcript (format defaults to the extension)
+  %chat help             - Show this help message
+
+  %%chat [options]       - Send the rest of the cell with per-cell options:
+      --model <name>  --temperature <t>  --top-p <p>  --max-tokens <n>
+      --seed <n>  --stop <text>  --system <text>  --no-history
+      --json <schema>     Reply with JSON matching a JSON Schema, given inline
+                          or as the name of a variable set with "%chat set"
+      --max-steps <n>     Step limit for tool calls in this cell
+      --thread <name>     Send to another conversation thread
+
+  %%tool <name> [--description <text>] [--confirm]
+                         - Define a tool the model can call: a JSON Schema for
+                           its parameters, a "---" line, then a JS function.
+                           Offered to models with function calling (WebLLM
+                           Hermes models, OpenAI-compatible endpoints)
+  %chat tools [show|delete <name>] - List, show or delete tools
+
+  %chat cache list       - List downloaded models with their sizes
+  %chat cache delete <model> - Delete a downloaded model
+  %chat cache clear      - Delete all downloaded models
+  %chat cache usage      - Show browser storage usage
+
+The model is initialized on first cell execution using the default from Settings.
+After initialization, use "%chat model <name>" to switch models.
+Each cell continues the conversation; switching models clears the history.
+Prompts may use {{name}} variables, and {{In[n]}} / {{Out[n]}} for the prompt
+and reply of cell n ({{Out[-1]}} is the previous reply). Write \\{{ for a
+literal {{, e.g. \\{{#each items}} in a question about Handlebars.`;
+
+/**
+ * Raised when a generation is stopped with the kernel interrupt button.
+ * Reported to the notebook with a Python-style `KeyboardInterrupt` ename.
+ */
+class KeyboardInterrupt extends Error {
+  constructor(message: string = "Generation interrupted") {
+    super(message);
+    this.name = "KeyboardInterrupt";
+  }
+}
+
+/**
+ * Per-call options for WebLLMChatKernel.send().
+ */
+interface SendOptions {
+  /** Aborts the generation; the partial reply is discarded from history. */
+  abortSignal?: AbortSignal;
+  /** Model for this call only; the kernel's current model is unchanged. */
+  model?: string;
+  /** System prompt for this call only. */
+  system?: string;
+  /** Generation parameters for this call, layered over the kernel's. */
+  generation?: GenerationConfig;
+  /** Send the conversation history and record the turn (default true). */
+  history?: boolean;
+  /** Tools the model may call; omitted for models without function calling. */
+  tools?: ToolSet;
+  /** Maximum number of generation steps when tools are called. */
+  maxSteps?: number;
+  /** Called with each completed tool call and its output or error. */
+  onToolResult?: (name: string, input: unknown, result: { output: unknown } | { error: unknown }) => void;
+  /** Called with download/load progress while the model is being prepared. */
+  onModelProgress?: (report: ProgressReport) => void;
+  /** Called once the model is ready, just before generation starts. */
+  onModelReady?: () => void;
+  /**
+   * Called with warnings about the model: before loading one that likely
+   * does not fit the GPU, or when it cannot be offered the tools.
+   */
+  onModelWarning?: (message: string) => void;
+  /** Called with the token usage and timing of a completed reply. */
+  onStats?: (stats: ReplyStats) => void;
+  /** Called when turns were dropped or summarized to fit the context window. */
+  onContextNotice?: (message: string) => void;
+  /** Thread for this call; defaults to the current thread. */
+  thread?: string;
+}
+
+// Name of the thread every kernel starts with
+const DEFAULT_THREAD = "main";
+
+const THREAD_NAME = /^[A-Za-z0-9_][A-Za-z0-9_.-]*$/;
+
+/**
+ * A line of conversation in a kernel (%chat thread). Threads have their own
+ * history, system prompt and parameters, and share the kernel's model.
+ */
+interface ConversationThread {
+  history: ModelMessage[];
+  /** System prompt override; null means use the settings default */
+  systemPrompt: string | null;
+  /** Generation parameters, layered over the settings defaults */
+  generation: GenerationConfig;
+  /** User messages of the turns pinned with %chat pin */
+  pinned: Set<ModelMessage>;
+  /** Summary of the turns removed by the summarize strategy */
+  summary: string | null;
+}
+
+function createThread(): ConversationThread {
+  return { history: [], systemPrompt: null, generation: {}, pinned: new Set(), summary: null };
+}
+
+/**
+ * Forward model download/load progress to listeners in the page.
+ */
+function dispatchProgress(report: ProgressReport): void {
+  if (typeof window !== "undefined") {
+    window.dispatchEvent(
+      new CustomEvent("webllm:model-progress", { detail: report })
+    );
+  }
+}
+
+// Models shared by all kernels and by the IWebLLMChatService of this page
+const enginePool = new EnginePool(dispatchProgress);
+
 // Helper to get a module from the shared scope
 async function importShared(pkg: string): Promise<any> {
   if (!sharedScope) {
@@ -92,12 +414,15 @@ const container = {
         console.log("[webllm-chat-kernel/federation] Loading plugins from shared scope...");
 
         // Import JupyterLab/JupyterLite modules from shared scope
-        const { BaseKernel, IKernelSpecs } = await importShared('@jupyterlite/kernel');
+        const { BaseKernel, IKernelSpecs, IKernelClient } = await importShared('@jupyterlite/kernel');
         const { Widget } = await importShared('@lumino/widgets');
 
-        const { ReactWidget, showDialog, Dialog } = await importShared('@jupyterlab/apputils');
+        const { ReactWidget, showDialog, Dialog, ICommandPalette } = await importShared('@jupyterlab/apputils');
         const React = await importShared('react');
         const { HTMLSelect } = await importShared('@jupyterlab/ui-components');
+        const { KernelMessage } = await importShared('@jupyterlab/services');
+        const { Token } = await importShared('@lumino/coreutils');
+        const { PathExt } = await importShared('@jupyterlab/coreutils');
 
 
         console.log("[webllm-chat-kernel/federation] Got BaseKernel from shared scope:", BaseKernel);
@@ -105,32 +430,85 @@ const container = {
         // Define WebLLM-backed Chat kernel inline (browser-only, no HTTP)
         class WebLLMChatKernel {
           private modelName: string | null = null;
-          private model: ReturnType<typeof webLLM> | null = null;
+          // Reference to the current model in the shared engine pool
+          private model: PooledModel | null = null;
           private initialized: boolean = false;
+          // Conversation threads by name, and the one prompts go to by default
+          private threads = new Map<string, ConversationThread>([[DEFAULT_THREAD, createThread()]]);
+          private currentThread: string = DEFAULT_THREAD;
+          // Last model download/load progress report
+          private progress: ProgressReport | null = null;
+          // Usage and speed of the replies in this session, for %chat stats
+          private stats = new SessionStats();
+          // Per-kernel context strategy; null means use the settings default
+          private contextStrategy: ContextStrategy | null = null;
+          // Models already told that they were not offered the tools
+          private toolWarnings = new Set<string>();
+          // Called with every progress report of this kernel's models
+          onProgress: ((report: ProgressReport) => void) | null = null;
 
           constructor() {
             // Model initialization is deferred until first send() call
             console.log("[WebLLMChatKernel] Created (model initialization deferred until first execution)");
           }
 
+          /**
+           * Release the kernel's model so the pool can unload it once no other
+           * kernel or plugin uses it.
+           */
+          dispose(): void {
+            this.model?.release();
+            this.model = null;
+            this.onProgress = null;
+          }
+
+          /**
+           * Get the model status: the current (or default) model, whether it
+           * has been initialized and the last progress report.
+           */
+          getStatus(): CommStatus {
+            return {
+              type: "status",
+              model: this.modelName ?? canonicalModelId(getDefaultModel()),
+              initialized: this.initialized,
+              progress: this.progress,
+            };
+          }
+
+          /**
+           * Get a reference to a model from the engine pool, following its
+           * progress for the kernel's status.
+           */
+          private acquireModel(modelName: string): PooledModel {
+            const handle = enginePool.acquire(modelName);
+            const stopListening = handle.onProgress((report) => {
+              this.progress = report;
+              this.onProgress?.(report);
+            });
+            return {
+              ...handle,
+              release: () => {
+                stopListening();
+                handle.release();
+              },
+            };
+          }
+
           /**
            * Initialize the model. Called on first send() or when explicitly setting a model.
+           * The previous model is released to the engine pool.
            */
           private initializeModel(modelName: string) {
-            if (!isValidWebLLMModel(modelName)) {
-              throw new Error(`Invalid model: ${modelName}. Use %ai model to see available models.`);
-            }
-            
-            this.modelName = modelName;
-            this.model = webLLM(this.modelName, {
-              initProgressCallback: (report) => {
-                if (typeof window !== "undefined") {
-                  window.dispatchEvent(
-                    new CustomEvent("webllm:model-progress", { detail: report })
-                  );
-                }
-              },
-            });
+            this.useModel(this.acquireModel(modelName));
+          }
+
+          /**
+           * Switch to an acquired model, releasing the previous one.
+           */
+          private useModel(model: PooledModel) {
+            this.model?.release();
+            this.modelName = model.id;
+            this.model = model;
             this.initialized = true;
             console.log("[WebLLMChatKernel] Initialized with model:", this.modelName);
           }
@@ -140,17 +518,20 @@ const container = {
            * If the model is already initialized, this will reinitialize with the new model.
            */
           setModel(modelName: string): string {
-            if (!isValidWebLLMModel(modelName)) {
+            if (!isValidModelId(modelName)) {
               throw new Error(`Invalid model: ${modelName}`);
             }
             
             const wasInitialized = this.initialized;
             this.initializeModel(modelName);
+            // The current transcript was produced by the previous model; start
+            // fresh. Other threads keep theirs and continue with the new model.
+            this.resetHistory();
             
             if (wasInitialized) {
-              return `Model changed to: ${modelName}`;
+              return `Model changed to: ${this.modelName}`;
             } else {
-              return `Model set to: ${modelName}`;
+              return `Model set to: ${this.modelName}`;
             }
           }
 
@@ -168,131 +549,1382 @@ const container = {
             return this.initialized;
           }
 
-          async send(prompt: string, onChunk?: (chunk: string) => void): Promise<string> {
-            // Initialize model on first send if not already done
-            if (!this.initialized || !this.model) {
-              const defaultModel = getDefaultModel();
-              this.initializeModel(defaultModel);
-              console.log("[WebLLMChatKernel] Auto-initialized with settings default:", defaultModel);
-            }
+          private get thread(): ConversationThread {
+            return this.threads.get(this.currentThread)!;
+          }
+
+          /**
+           * Get a thread by name, or the current thread. Throws for unknown names.
+           */
+          private resolveThread(name?: string): ConversationThread {
+            if (name === undefined) {
+              return this.thread;
+            }
+            const thread = this.threads.get(name);
+            if (!thread) {
+              throw new Error(`Unknown thread: ${name}. Use "%chat thread new ${name}" to create it.`);
+            }
+            return thread;
+          }
+
+          /**
+           * Get the name of the thread prompts go to by default.
+           */
+          getThreadName(): string {
+            return this.currentThread;
+          }
+
+          /**
+           * Thread names with their number of turns, in creation order.
+           */
+          listThreads(): { name: string; turns: number; current: boolean }[] {
+            return [...this.threads].map(([name, thread]) => ({
+              name,
+              turns: thread.history.length / 2,
+              current: name === this.currentThread,
+            }));
+          }
+
+          /**
+           * Create an empty thread with the settings' system prompt and parameters.
+           */
+          createThread(name: string): void {
+            if (!THREAD_NAME.test(name)) {
+              throw new Error(`Invalid thread name: ${name} (use letters, digits, ".", "_" and "-")`);
+            }
+            if (this.threads.has(name)) {
+              throw new Error(`Thread ${name} already exists. Use "%chat thread switch ${name}" to continue it.`);
+            }
+            this.threads.set(name, createThread());
+          }
+
+          /**
+           * Make a thread the one prompts go to by default.
+           */
+          switchThread(name: string): void {
+            this.resolveThread(name);
+            this.currentThread = name;
+          }
+
+          /**
+           * Delete a thread other than the current one.
+           */
+          deleteThread(name: string): void {
+            this.resolveThread(name);
+            if (name === this.currentThread) {
+              throw new Error(`Cannot delete the current thread ${name}. Switch to another thread first.`);
+            }
+            this.threads.delete(name);
+          }
+
+          /**
+           * Get the user/assistant transcript of the current thread.
+           */
+          getHistory(): ModelMessage[] {
+            return this.thread.history;
+          }
+
+          /**
+           * Clear a thread's transcript (by default the current one). Called
+           * via %chat reset, on model change and on kernel restart.
+           */
+          resetHistory(thread: ConversationThread = this.thread): void {
+            thread.history = [];
+            thread.pinned.clear();
+            thread.summary = null;
+          }
+
+          /**
+           * Get the reply statistics of this session.
+           */
+          getStats(): SessionStats {
+            return this.stats;
+          }
+
+          /**
+           * Continue a conversation loaded by %chat load in the current thread:
+           * its transcript, system prompt and parameters, and its model if
+           * given. The model is loaded first, so nothing changes if that fails.
+           */
+          async restoreConversation(conversation: SavedConversation, modelName: string | null): Promise<void> {
+            if (modelName !== null) {
+              const model = this.acquireModel(modelName);
+              try {
+                await model.prepare();
+              } catch (e) {
+                model.release();
+                throw e;
+              }
+              this.useModel(model);
+            }
+            this.resetHistory();
+            this.thread.systemPrompt = conversation.system;
+            this.thread.generation = { ...conversation.generation };
+            this.thread.history = [...conversation.messages];
+          }
+
+          /**
+           * Get the effective context settings: the per-kernel strategy if
+           * set, otherwise the settings default.
+           */
+          getContextSettings(): ContextSettings {
+            return { ...settingsContext, strategy: this.contextStrategy ?? settingsContext.strategy };
+          }
+
+          /**
+           * Override the context strategy for this kernel. Pass null to go
+           * back to the default from Settings.
+           */
+          setContextStrategy(strategy: ContextStrategy | null): void {
+            this.contextStrategy = strategy;
+          }
+
+          hasContextStrategyOverride(): boolean {
+            return this.contextStrategy !== null;
+          }
+
+          /**
+           * Pin or unpin a turn (1-based) so the keep-pinned and summarize
+           * strategies keep it. Throws for turns that do not exist.
+           */
+          setPinned(turn: number, pinned: boolean): void {
+            const message = this.thread.history[(turn - 1) * 2];
+            if (!Number.isInteger(turn) || turn < 1 || !message) {
+              throw new Error(`No turn ${turn}: the history has ${this.thread.history.length / 2} turns. Use %chat history to see them.`);
+            }
+            if (pinned) {
+              this.thread.pinned.add(message);
+            } else {
+              this.thread.pinned.delete(message);
+            }
+          }
+
+          isPinned(turn: number): boolean {
+            const message = this.thread.history[(turn - 1) * 2];
+            return message !== undefined && this.thread.pinned.has(message);
+          }
+
+          unpinAll(): void {
+            this.thread.pinned.clear();
+          }
+
+          /**
+           * Get the summary of the turns removed by the summarize strategy.
+           */
+          getSummary(): string | null {
+            return this.thread.summary;
+          }
+
+          /**
+           * Make the system prompt, history and prompt fit the model's context
+           * window, removing turns from the history as the strategy says.
+           * Returns the system prompt to send, with the summary of removed
+           * turns. Throws if the prompt cannot be made to fit.
+           */
+          private async fitContext(
+            model: ProviderModel,
+            modelId: string,
+            thread: ConversationThread,
+            system: string,
+            prompt: string,
+            options: SendOptions
+          ): Promise<string> {
+            const useHistory = options.history ?? true;
+            const fullSystem = withSummary(system, useHistory ? thread.summary : null);
+            const contextWindow = getContextWindow(modelId);
+            const { strategy, reserveTokens } = this.getContextSettings();
+            if (contextWindow === null || strategy === "off") {
+              return fullSystem;
+            }
+
+            const reserve = options.generation?.max_tokens ?? this.getGenerationConfig(thread).max_tokens ?? reserveTokens;
+            const limit = contextWindow - reserve;
+            const fixed = estimateTokens(fullSystem) + estimateMessageTokens({ role: "user", content: prompt });
+            const history = useHistory ? thread.history : [];
+            const turnTokens: number[] = [];
+            const pinned: boolean[] = [];
+            for (let i = 0; i < history.length; i += 2) {
+              turnTokens.push(estimateMessageTokens(history[i]) + (history[i + 1] ? estimateMessageTokens(history[i + 1]) : 0));
+              pinned.push(thread.pinned.has(history[i]));
+            }
+
+            let selection = selectTurnsToRemove(turnTokens, pinned, fixed, limit, strategy !== "drop-oldest");
+            if (!selection.fits) {
+              const kept = turnTokens.reduce((sum, tokens, turn) => (selection.remove.includes(turn) ? sum : sum + tokens), 0);
+              throw new Error(
+                `The prompt does not fit the ${contextWindow}-token context window of ${modelId}: ` +
+                  `about ${fixed + kept} tokens, plus ${reserve} kept free for the reply. ` +
+                  (thread.pinned.size > 0 && useHistory ? `Unpin turns with "%chat unpin", shorten ` : `Shorten `) +
+                  `the prompt, lower max_tokens, or start over with "%chat reset".`
+              );
+            }
+            if (selection.remove.length === 0) {
+              return fullSystem;
+            }
+
+            let summarized = false;
+            if (strategy === "summarize") {
+              // Summarize down to half the window, so the next turns fit without another summary
+              const generous = selectTurnsToRemove(turnTokens, pinned, fixed, Math.floor(limit / 2), true);
+              if (generous.remove.length > selection.remove.length) {
+                selection = { remove: generous.remove, fits: true };
+              }
+              const removed = selection.remove.flatMap((turn) => history.slice(turn * 2, turn * 2 + 2));
+              try {
+                const { text } = await generateText({
+                  model: model.model,
+                  prompt: summaryPrompt(removed, thread.summary),
+                  maxOutputTokens: 300,
+                  abortSignal: options.abortSignal,
+                });
+                thread.summary = text.trim();
+                summarized = true;
+              } catch (err: any) {
+                if (options.abortSignal?.aborted) {
+                  throw new KeyboardInterrupt();
+                }
+                options.onContextNotice?.(`Context: could not summarize older turns (${err?.message ?? err}); dropping them instead.`);
+              }
+            }
+
+            const removedTurns = new Set(selection.remove);
+            const removedTokens = selection.remove.reduce((sum, turn) => sum + turnTokens[turn], 0);
+            thread.history = thread.history.filter((message, index) => {
+              const remove = removedTurns.has(Math.floor(index / 2));
+              if (remove) {
+                thread.pinned.delete(message);
+              }
+              return !remove;
+            });
+            const count = selection.remove.length;
+            options.onContextNotice?.(
+              `Context: ${summarized ? "summarized" : "dropped"} ${count} older turn${count === 1 ? "" : "s"} ` +
+                `(~${removedTokens} tokens) to stay within the ${contextWindow}-token context window of ${modelId}. ` +
+                `See "%chat context".`
+            );
+            return withSummary(system, thread.summary);
+          }
+
+          /**
+           * Get the effective system prompt of a thread (by default the
+           * current one): its override if set, otherwise the default from
+           * Settings. Empty means no system prompt.
+           */
+          getSystemPrompt(thread: ConversationThread = this.thread): string {
+            return thread.systemPrompt ?? settingsSystemPrompt;
+          }
+
+          /**
+           * Override the system prompt for the current thread. Pass null to go
+           * back to the default from Settings.
+           */
+          setSystemPrompt(prompt: string | null): void {
+            this.thread.systemPrompt = prompt;
+          }
+
+          /**
+           * Check whether the system prompt has been overridden in the current thread.
+           */
+          hasSystemPromptOverride(): boolean {
+            return this.thread.systemPrompt !== null;
+          }
+
+          /**
+           * Get the effective generation parameters of a thread (by default
+           * the current one): settings defaults overridden by anything set
+           * with %chat config.
+           */
+          getGenerationConfig(thread: ConversationThread = this.thread): GenerationConfig {
+            return { ...settingsGeneration, ...thread.generation };
+          }
+
+          /**
+           * Get the generation parameters set with %chat config in the
+           * current thread, without the settings defaults.
+           */
+          getGenerationOverrides(): GenerationConfig {
+            return { ...this.thread.generation };
+          }
+
+          /**
+           * Override generation parameters for the current thread.
+           */
+          updateGenerationConfig(config: GenerationConfig): void {
+            this.thread.generation = { ...this.thread.generation, ...config };
+          }
+
+          /**
+           * Drop all overrides of the current thread and go back to the
+           * settings defaults.
+           */
+          resetGenerationConfig(): void {
+            this.thread.generation = {};
+          }
+
+          /**
+           * Run a generation with the model for a call: the per-call model,
+           * held only for the duration of the call, or the kernel's current
+           * model, initialized on first use. The model is loaded first.
+           */
+          private async withModel<T>(
+            prompt: string,
+            options: SendOptions,
+            generate: (model: ProviderModel, modelId: string) => Promise<T>
+          ): Promise<T> {
+            if (options.model === undefined && (!this.initialized || !this.model)) {
+              // Initialize model on first send if not already done
+              const defaultModel = await resolveDefaultModel();
+              this.initializeModel(defaultModel);
+              console.log("[WebLLMChatKernel] Auto-initialized with settings default:", defaultModel);
+            }
+            const perCall = options.model !== undefined ? this.acquireModel(options.model) : null;
+            const model = perCall ?? this.model!;
+            try {
+              console.log("[WebLLMChatKernel] Sending prompt:", prompt, "using model:", model.id);
+              if (!model.isLoaded() && options.onModelWarning) {
+                const warning = await getModelFitWarning(model.id);
+                if (warning) {
+                  options.onModelWarning(warning);
+                }
+              }
+              const stopListening = options.onModelProgress ? model.onProgress(options.onModelProgress) : null;
+              try {
+                await model.prepare();
+              } finally {
+                stopListening?.();
+              }
+              options.onModelReady?.();
+
+              // A model download cannot be cancelled, but don't start generating
+              // if the user gave up while it was loading
+              if (options.abortSignal?.aborted) {
+                throw new KeyboardInterrupt();
+              }
+              return await generate(model.model, model.id);
+            } finally {
+              perCall?.release();
+            }
+          }
+
+          async send(
+            prompt: string,
+            onChunk?: (chunk: string) => void,
+            options: SendOptions = {}
+          ): Promise<string> {
+            const thread = this.resolveThread(options.thread);
+            return this.withModel(prompt, options, (model, modelId) =>
+              this.streamReply(model, modelId, thread, prompt, onChunk, options)
+            );
+          }
+
+          /**
+           * The tools to offer a model: none if it has no function calling,
+           * which is reported once per model.
+           */
+          private toolsFor(modelId: string, options: SendOptions): ToolSet | undefined {
+            if (!options.tools || Object.keys(options.tools).length === 0 || modelSupportsTools(modelId)) {
+              return options.tools;
+            }
+            if (!this.toolWarnings.has(modelId)) {
+              this.toolWarnings.add(modelId);
+              options.onModelWarning?.(
+                `${modelId} does not support function calling, so the %%tool tools are not offered to it.`
+              );
+            }
+            return undefined;
+          }
+
+          private async streamReply(
+            model: ProviderModel,
+            modelId: string,
+            thread: ConversationThread,
+            prompt: string,
+            onChunk: ((chunk: string) => void) | undefined,
+            options: SendOptions
+          ): Promise<string> {
+            const { abortSignal } = options;
+            const useHistory = options.history ?? true;
+
+            const system = await this.fitContext(model, modelId, thread, options.system ?? this.getSystemPrompt(thread), prompt, options);
+            // streamText reports model errors through onError rather than
+            // by throwing from fullStream, so keep the error to rethrow below
+            let streamError: unknown = null;
+            const start = performance.now();
+            const result = await streamText({
+              model: model.model,
+              system: system || undefined,
+              messages: [...(useHistory ? thread.history : []), { role: "user", content: prompt }],
+              ...toCallSettings({ ...this.getGenerationConfig(thread), ...options.generation }),
+              tools: this.toolsFor(modelId, options),
+              // Each tool round trip is a step; the limit stops runaway loops
+              stopWhen: stepCountIs(options.maxSteps ?? settingsMaxToolSteps),
+              abortSignal,
+              onError: ({ error }) => {
+                streamError = error;
+              },
+            });
+
+            let reply = "";
+            let firstToken: number | null = null;
+            let usage: LanguageModelUsage | undefined;
+            try {
+              for await (const part of result.fullStream) {
+                if (part.type === "text-delta") {
+                  firstToken ??= performance.now();
+                  reply += part.text;
+                  if (onChunk) {
+                    onChunk(part.text);
+                  }
+                } else if (part.type === "tool-result") {
+                  options.onToolResult?.(part.toolName, part.input, { output: part.output });
+                } else if (part.type === "tool-error") {
+                  options.onToolResult?.(part.toolName, part.input, { error: part.error });
+                } else if (part.type === "finish") {
+                  usage = part.totalUsage;
+                }
+              }
+            } catch (err) {
+              if (abortSignal?.aborted) {
+                throw new KeyboardInterrupt();
+              }
+              throw err;
+            }
+
+            // An aborted stream may end without raising; the partial reply
+            // stays in the cell output but is not added to the history
+            if (abortSignal?.aborted) {
+              console.log("[WebLLMChatKernel] Generation interrupted after:", reply);
+              throw new KeyboardInterrupt();
+            }
+            if (streamError) {
+              throw streamError;
+            }
+
+            console.log("[WebLLMChatKernel] Got reply:", reply);
+            this.recordStats(measureReply(modelId, usage, start, firstToken, performance.now()), options);
+
+            // Only record the turn once the reply has completed successfully
+            if (useHistory) {
+              thread.history.push(
+                { role: "user", content: prompt },
+                { role: "assistant", content: reply }
+              );
+            }
+            return reply;
+          }
+
+          /**
+           * Generate a JSON value conforming to a JSON Schema. Output that is
+           * not valid JSON or does not match the schema raises an Error that
+           * includes the raw model output.
+           */
+          async sendJson(prompt: string, schema: JSONSchema7, options: SendOptions = {}): Promise<unknown> {
+            const thread = this.resolveThread(options.thread);
+            return this.withModel(prompt, options, (model, modelId) =>
+              this.generateJson(model, modelId, thread, prompt, schema, options)
+            );
+          }
+
+          /**
+           * Add a reply's statistics to the session and pass them on.
+           */
+          private recordStats(stats: ReplyStats, options: SendOptions): void {
+            this.stats.record(stats);
+            options.onStats?.(stats);
+          }
+
+          private async generateJson(
+            model: ProviderModel,
+            modelId: string,
+            thread: ConversationThread,
+            prompt: string,
+            schema: JSONSchema7,
+            options: SendOptions
+          ): Promise<unknown> {
+            const { abortSignal } = options;
+            const useHistory = options.history ?? true;
+
+            const system = await this.fitContext(
+              model,
+              modelId,
+              thread,
+              [options.system ?? this.getSystemPrompt(thread), schemaInstruction(schema)].filter(Boolean).join("\n\n"),
+              prompt,
+              options
+            );
+            // JSON mode does not take stop sequences
+            const { stopSequences, ...callSettings } = toCallSettings({ ...this.getGenerationConfig(thread), ...options.generation });
+            let object: unknown;
+            const start = performance.now();
+            try {
+              const result = await generateObject({
+                model: model.model,
+                system,
+                messages: [...(useHistory ? thread.history : []), { role: "user", content: prompt }],
+                schema: toValidatedSchema(schema),
+                mode: "json",
+                ...callSettings,
+                abortSignal,
+              });
+              object = result.object;
+              this.recordStats(measureReply(modelId, result.usage, start, null, performance.now()), options);
+            } catch (err: any) {
+              if (abortSignal?.aborted) {
+                throw new KeyboardInterrupt();
+              }
+              if (NoObjectGeneratedError.isInstance(err)) {
+                // Report the innermost cause: the JSON parse or schema error
+                let cause: any = err;
+                while (cause.cause) {
+                  cause = cause.cause;
+                }
+                throw new Error(`Model output does not match the schema: ${cause.message}\n\nRaw output:\n${err.text ?? ""}`);
+              }
+              throw err;
+            }
+
+            console.log("[WebLLMChatKernel] Got object:", object);
+
+            if (useHistory) {
+              thread.history.push(
+                { role: "user", content: prompt },
+                { role: "assistant", content: JSON.stringify(object) }
+              );
+            }
+            return object;
+          }
+        }
+
+        // Define WebLLMLiteKernel extending BaseKernel
+        class WebLLMLiteKernel extends BaseKernel {
+          private chat: WebLLMChatKernel;
+          // Controller for the generation currently running, if any
+          private abortController: AbortController | null = null;
+          // How replies are rendered, set with %chat output
+          private outputMode: OutputMode = "markdown";
+          // Executed prompts and replies, shared with history_request
+          private promptHistory = new PersistentHistory(
+            typeof localStorage !== "undefined" ? localStorage : null
+          );
+          // Prompt variables (%chat set) and templates saved in this kernel
+          private variables = new Map<string, string>();
+          private templates = new Map<string, string>();
+          // Prompts and replies of this kernel by execution count, for {{In[n]}} / {{Out[n]}}
+          private inputs = new Map<number, string>();
+          private outputs = new Map<number, string>();
+          // Tools defined with %%tool cells, offered to the model on every prompt
+          private tools = new Map<string, NotebookTool>();
+          // Open comms of the webllm.chat target
+          private comms = new Set<string>();
+          // Show the statistics footer under replies; null means use the setting
+          private statsFooter: boolean | null = null;
+
+          constructor(options: any) {
+            super(options);
+            this.chat = new WebLLMChatKernel();
+            this.chat.onProgress = (report: ProgressReport) => {
+              this.comms.forEach((commId) => this.sendCommData(commId, { type: "progress", ...report }));
+            };
+          }
+
+          /**
+           * JupyterLite restarts a kernel by disposing it and creating a new one,
+           * so this is where the conversation is dropped on restart.
+           */
+          dispose(): void {
+            // @ts-ignore
+            if (this.isDisposed) {
+              return;
+            }
+            this.interrupt();
+            this.chat.resetHistory();
+            this.chat.dispose();
+            this.comms.clear();
+            super.dispose();
+          }
+
+          /**
+           * Abort the running generation, if any. Called when the user presses
+           * the kernel interrupt button.
+           */
+          interrupt(): void {
+            if (this.abortController) {
+              console.log("[webllm-chat-kernel] Interrupting generation");
+              this.abortController.abort();
+            }
+          }
+
+          /**
+           * Wrap the %%tool definitions as AI SDK tools. Tools defined with
+           * --confirm ask the user before each call; a declined call is
+           * reported to the model as a tool error.
+           */
+          private buildToolSet(): ToolSet | undefined {
+            if (this.tools.size === 0) {
+              return undefined;
+            }
+            const toolSet: ToolSet = {};
+            for (const definition of this.tools.values()) {
+              toolSet[definition.name] = tool({
+                description: definition.description || undefined,
+                inputSchema: jsonSchema(definition.parameters),
+                execute: async (input: unknown) => {
+                  if (definition.confirm) {
+                    const result = await showDialog({
+                      title: `Run tool ${definition.name}?`,
+                      body: `The model wants to call ${definition.name} with:\n${JSON.stringify(input, null, 2)}`,
+                      buttons: [
+                        Dialog.cancelButton({ label: 'Decline' }),
+                        Dialog.okButton({ label: 'Run' })
+                      ]
+                    });
+                    if (!result.button.accept) {
+                      throw new Error(`The user declined to run ${definition.name}.`);
+                    }
+                  }
+                  return await definition.execute(input);
+                },
+              });
+            }
+            return toolSet;
+          }
+
+          /**
+           * Create a progress bar output for the executing cell. It appears
+           * with the first download/load report, is refreshed in place and
+           * blanked by clear() once the model is ready.
+           */
+          private createProgressDisplay(): { update: (report: ProgressReport) => void; clear: () => void } {
+            const displayId = `webllm-progress-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+            const parentHeader = (this as any).parentHeader;
+            let displayed = false;
+            let lastUpdate = 0;
+            return {
+              update: (report: ProgressReport) => {
+                // Reports arrive for every fetched shard; don't flood the front end
+                const now = Date.now();
+                if (displayed && now - lastUpdate < 200 && report.progress < 1) {
+                  return;
+                }
+                lastUpdate = now;
+                const content = { data: formatProgress(report), metadata: {}, transient: { display_id: displayId } };
+                if (!displayed) {
+                  displayed = true;
+                  // @ts-ignore
+                  this.displayData(content, parentHeader);
+                } else {
+                  // @ts-ignore
+                  this.updateDisplayData(content, parentHeader);
+                }
+              },
+              clear: () => {
+                if (displayed) {
+                  // @ts-ignore
+                  this.updateDisplayData(
+                    { data: { "text/plain": "" }, metadata: {}, transient: { display_id: displayId } },
+                    parentHeader
+                  );
+                }
+              },
+            };
+          }
+
+          /**
+           * Show a completed tool call as a collapsible block in the cell output.
+           */
+          private displayToolCall(name: string, input: unknown, result: { output: unknown } | { error: unknown }): void {
+            // @ts-ignore
+            this.displayData(
+              { data: formatToolCall(name, input, result), metadata: {} },
+              // @ts-ignore
+              this.parentHeader
+            );
+          }
+
+          /**
+           * Look up a template saved in this kernel, falling back to Settings.
+           */
+          private getTemplate(name: string): string | undefined {
+            if (this.templates.has(name)) {
+              return this.templates.get(name);
+            }
+            return Object.keys(settingsTemplates).includes(name) ? settingsTemplates[name] : undefined;
+          }
+
+          private getTemplateNames(): string[] {
+            return [...new Set([...Object.keys(settingsTemplates), ...this.templates.keys()])].sort();
+          }
+
+          private templateContext(variables: Map<string, string> = this.variables): TemplateContext {
+            return { variables, inputs: this.inputs, outputs: this.outputs };
+          }
+
+          /**
+           * Turn cell code into the prompt to send: "%chat template use" expands
+           * a saved template, and {{placeholders}} in plain prompts are expanded.
+           */
+          private expandPrompt(code: string): string {
+            const useMatch = code.trim().match(/^%chat\s+template\s+use\s+(\S+)(?:\s+([\s\S]*))?$/);
+            if (useMatch) {
+              const name = useMatch[1];
+              const template = this.getTemplate(name);
+              if (template === undefined) {
+                throw new Error(`Unknown template: ${name}\n\nUse "%chat template list" to see saved templates.`);
+              }
+              // name=value arguments apply to this use only
+              const variables = new Map(this.variables);
+              for (const arg of tokenizeArgs(useMatch[2] ?? "")) {
+                const { name: key, value } = parseAssignment(arg);
+                variables.set(key, value);
+              }
+              return expandTemplate(template, this.templateContext(variables));
+            }
+            return hasPlaceholders(code) ? expandTemplate(code, this.templateContext()) : code;
+          }
+
+          /**
+           * The conversation with the system prompt, parameters and model
+           * needed to continue it, for %chat save and %chat export.
+           */
+          private getConversation(): SavedConversation {
+            return {
+              format: CONVERSATION_FORMAT,
+              version: CONVERSATION_VERSION,
+              model: this.chat.getModelName(),
+              system: this.chat.getSystemPrompt(),
+              generation: this.chat.getGenerationOverrides(),
+              messages: this.chat.getHistory(),
+            };
+          }
+
+          /**
+           * Resolve a contents path relative to the notebook's directory.
+           * Paths starting with "/" are relative to the contents root.
+           */
+          private resolvePath(path: string): string {
+            if (path.startsWith("/")) {
+              return PathExt.normalize(path);
+            }
+            // @ts-ignore
+            return PathExt.join(this.location ?? "", path);
+          }
+
+          /**
+           * Handle %chat magic commands.
+           * Returns the response text if a magic was handled, or null if the code
+           * is a prompt for the model (including "%chat template use").
+           */
+          private async handleMagic(code: string): Promise<string | null> {
+            const magic = code.trim().match(/^%chat(?:\s+(\S+)(?:\s+([\s\S]*))?)?$/);
+            if (!magic) {
+              return null; // Not a magic command
+            }
+            const subcommand = magic[1] ?? "help";
+            // Raw argument text; commands taking options tokenize it themselves
+            const rest = magic[2]?.trim() ?? "";
+
+            switch (subcommand) {
+              // %chat list [filter] [--family f] [--max-vram mb] [--low-resource] [--sort key]
+              case "list": {
+                const { flags, positionals } = parseFlags(tokenizeArgs(rest), {
+                  family: "string",
+                  "max-vram": "number",
+                  "low-resource": "boolean",
+                  sort: "string",
+                });
+                const sort = flags["sort"] as ModelSortKey | undefined;
+                if (sort !== undefined && !MODEL_SORT_KEYS.includes(sort)) {
+                  throw new Error(`Invalid sort key: ${sort}. Use ${MODEL_SORT_KEYS.join(", ")}.`);
+                }
+                const filter = positionals.join(" ").toLowerCase();
+                const catalogFilter: ModelFilter = {
+                  family: flags["family"] as string | undefined,
+                  maxVramMB: flags["max-vram"] as number | undefined,
+                  lowResource: flags["low-resource"] as boolean | undefined,
+                };
+                const usesCatalog = Object.values(catalogFilter).some((value) => value !== undefined);
+
+                let catalog = filterModels(MODEL_CATALOG, catalogFilter).filter((info) =>
+                  formatModelId("webllm", info.id).toLowerCase().includes(filter)
+                );
+                if (sort) {
+                  catalog = sortModels(catalog, sort);
+                }
+                // Models of other providers have no catalog data to filter on
+                const others = usesCatalog
+                  ? []
+                  : listModelIds().filter(
+                      (id) => parseModelId(id).provider.id !== "webllm" && id.toLowerCase().includes(filter)
+                    );
+
+                const allModels = listModelIds();
+                const count = catalog.length + others.length;
+                if (count === 0) {
+                  return `No models found matching "${rest}".\n\nUse "%chat list" to see all ${allModels.length} available models.`;
+                }
+
+                const entries = [
+                  ...catalog.map((info) => [formatModelId("webllm", info.id), summarizeModel(info)]),
+                  ...others.map((id) => [id, ""]),
+                ];
+                const width = Math.max(...entries.map(([id]) => id.length));
+                const modelList = entries.map(([id, summary]) => `${id.padEnd(width)}  ${summary}`.trimEnd()).join("\n  ");
+                const header = rest
+                  ? `Models matching "${rest}" (${count} of ${allModels.length}):`
+                  : `All available models (${allModels.length}):`;
+                const customErrors = getCustomModelErrors();
+                const skipped = customErrors.length > 0
+                  ? `\n\nSkipped invalid custom models (fix them in the settings):\n  ${customErrors.join("\n  ")}`
+                  : "";
+                return `${header}\n  ${modelList}\n\nUse "%chat model <name>" to switch models.\nFilter with --family <name>, --max-vram <MB>, --low-resource; sort with --sort ${MODEL_SORT_KEYS.join("|")}.${skipped}`;
+              }
+
+              // %chat model [name] - show current model or set model
+              case "model":
+              case "models": {
+                const args = tokenizeArgs(rest);
+                if (args.length === 0) {
+                  const current = this.chat.getModelName();
+                  const status = this.chat.isInitialized() 
+                    ? `Current model: ${current}` 
+                    : `Model not yet initialized. Default: ${canonicalModelId(await resolveDefaultModel())}`;
+                  return `${status}\n\nUse "%chat list" to see all available models.\nUse "%chat list <filter>" to filter by name (e.g., "%chat list llama").\nUse "%chat model <name>" to switch models.`;
+                }
+                if (args.length > 1) {
+                  throw new Error(`Usage: %chat model <name>`);
+                }
+                try {
+                  return this.chat.setModel(args[0]);
+                } catch (err: any) {
+                  throw new Error(`${err.message}\n\nUse "%chat list" to see available models.`);
+                }
+              }
+
+              // %chat info [model] - show model metadata
+              case "info": {
+                const args = tokenizeArgs(rest);
+                if (args.length > 1) {
+                  throw new Error(`Usage: %chat info [name]`);
+                }
+                const modelName = args[0] ?? this.chat.getModelName() ?? (await resolveDefaultModel());
+                const info = describeModelId(modelName);
+                if (info === null) {
+                  throw new Error(`Invalid model: ${modelName}\n\nUse "%chat list" to see available models.`);
+                }
+                return info;
+              }
+
+              // %chat providers - list model providers
+              case "providers": {
+                const lines = listProviders().map(
+                  (p) => `${p.id.padEnd(15)} ${p.label} (${p.listModels().length} known models)`
+                );
+                return `Model providers:\n  ${lines.join("\n  ")}\n\nSelect a model with a provider prefix, e.g. "%chat model openai-compat:llama3.2".\nModel IDs without a prefix are WebLLM models.`;
+              }
+
+              // %chat doctor - WebGPU diagnostics
+              case "doctor": {
+                // Detect again: storage usage changes, and the GPU may have been reset
+                gpuReport = detectGpu();
+                const report = await gpuReport;
+                const lines = [formatGpuReport(report), ""];
+                if (settingsDefaultModel === AUTO_MODEL) {
+                  autoDefaultModel = chooseAutoModel(report);
+                  lines.push(`Default model:              auto -> ${canonicalModelId(autoDefaultModel)}`);
+                } else {
+                  lines.push(`Default model:              ${canonicalModelId(getDefaultModel())}`);
+                }
+                const current = this.chat.getModelName() ?? getDefaultModel();
+                if (!report.limits) {
+                  lines.push("WebLLM models cannot run without a WebGPU adapter; other providers still work.");
+                } else if (parseModelId(current).provider.id === "webllm") {
+                  const warning = await getModelFitWarning(current);
+                  lines.push(warning ?? `${canonicalModelId(current)} should fit this GPU.`);
+                }
+                return lines.join("\n");
+              }
+
+              // %chat reset - clear the conversation transcript
+              case "reset": {
+                const turns = this.chat.getHistory().length / 2;
+                this.chat.resetHistory();
+                return `Conversation history cleared (${turns} turn${turns === 1 ? "" : "s"} removed).`;
+              }
+
+              // %chat history - print the conversation transcript
+              case "history": {
+                const history = this.chat.getHistory();
+                const summary = this.chat.getSummary();
+                if (history.length === 0 && !summary) {
+                  return "Conversation history is empty.";
+                }
+                const turns = history.map((message, index) => {
+                  const turn = Math.floor(index / 2) + 1;
+                  const pin = this.chat.isPinned(turn) ? ", pinned" : "";
+                  return `[${message.role} #${turn}${pin}]\n${message.content}`;
+                });
+                return [...(summary ? [`[summary of earlier turns]\n${summary}`] : []), ...turns].join("\n\n");
+              }
+
+              // %chat thread [list | new <name> | switch <name> | delete <name>] - conversation threads
+              case "thread":
+              case "threads": {
+                const [action = "list", ...args] = tokenizeArgs(rest);
+                if (action === "list") {
+                  const lines = this.chat.listThreads().map(
+                    ({ name, turns, current }) => `${current ? "*" : " "} ${name} (${turns} turn${turns === 1 ? "" : "s"})`
+                  );
+                  return `Threads (${lines.length}):\n  ${lines.join("\n  ")}\n\nUse "%chat thread new <name>" to start another one.`;
+                }
+                if (!["new", "switch", "delete"].includes(action)) {
+                  throw new Error(`Unknown thread command: ${action}. Use list, new, switch or delete.`);
+                }
+                if (args.length !== 1) {
+                  throw new Error(`Usage: %chat thread ${action} <name>`);
+                }
+                const name = args[0];
+                if (action === "new") {
+                  this.chat.createThread(name);
+                  this.chat.switchThread(name);
+                  return `Started thread ${name}.`;
+                }
+                if (action === "switch") {
+                  this.chat.switchThread(name);
+                  const turns = this.chat.getHistory().length / 2;
+                  return `Switched to thread ${name} (${turns} turn${turns === 1 ? "" : "s"}).`;
+                }
+                this.chat.deleteThread(name);
+                return `Deleted thread ${name}.`;
+              }
+
+              // %chat context [strategy <name> | strategy --default] - context window usage and strategy
+              case "context": {
+                const [action, ...args] = tokenizeArgs(rest);
+                if (action === "strategy") {
+                  if (args.length !== 1) {
+                    throw new Error(`Usage: %chat context strategy ${CONTEXT_STRATEGIES.join("|")}|--default`);
+                  }
+                  if (args[0] === "--default") {
+                    this.chat.setContextStrategy(null);
+                    return `Context strategy reset to the settings default (${this.chat.getContextSettings().strategy}).`;
+                  }
+                  if (!isContextStrategy(args[0])) {
+                    throw new Error(`Invalid context strategy: ${args[0]}. Use ${CONTEXT_STRATEGIES.join(", ")}.`);
+                  }
+                  this.chat.setContextStrategy(args[0]);
+                  return `Context strategy set to ${args[0]} for this kernel.`;
+                }
+                if (action !== undefined) {
+                  throw new Error(`Unknown context command: ${action}. Use "%chat context" or "%chat context strategy <name>".`);
+                }
+
+                const modelId = canonicalModelId(this.chat.getModelName() ?? (await resolveDefaultModel()));
+                const contextWindow = getContextWindow(modelId);
+                const { strategy, reserveTokens } = this.chat.getContextSettings();
+                const history = this.chat.getHistory();
+                const turns = history.length / 2;
+                const pinned = Array.from({ length: turns }, (_, i) => i + 1).filter((turn) => this.chat.isPinned(turn)).length;
+                const summary = this.chat.getSummary();
+                const historyTokens = history.reduce((sum, message) => sum + estimateMessageTokens(message), 0);
+                const systemTokens = estimateTokens(this.chat.getSystemPrompt());
+                const summaryTokens = summary ? estimateTokens(summary) : 0;
+                const reserve = this.chat.getGenerationConfig().max_tokens ?? reserveTokens;
+                const used = historyTokens + systemTokens + summaryTokens;
+                return [
+                  `Model:          ${modelId}`,
+                  `Context window: ${contextWindow !== null ? `${contextWindow} tokens` : "unknown (not managed)"}`,
+                  `Strategy:       ${strategy} (${this.chat.hasContextStrategyOverride() ? "kernel" : "settings default"})`,
+                  `History:        ~${historyTokens} tokens in ${turns} turn${turns === 1 ? "" : "s"}${pinned > 0 ? ` (${pinned} pinned)` : ""}`,
+                  `System prompt:  ~${systemTokens} tokens`,
+                  `Summary:        ${summary ? `~${summaryTokens} tokens of earlier turns` : "none"}`,
+                  `Reply reserve:  ${reserve} tokens`,
+                  ...(contextWindow !== null ? [`Used:           ~${used} of ${contextWindow - reserve} tokens available for prompts (${Math.round((used / (contextWindow - reserve)) * 100)}%)`] : []),
+                  "",
+                  `Strategies: ${CONTEXT_STRATEGIES.join(", ")}. Change with "%chat context strategy <name>".`,
+                  `Pin turns to keep with "%chat pin [turn]" (keep-pinned and summarize strategies).`,
+                ].join("\n");
+              }
+
+              // %chat pin [turn] / %chat unpin [turn | --all] - keep turns when trimming the context
+              case "pin":
+              case "unpin": {
+                const args = tokenizeArgs(rest);
+                const turns = this.chat.getHistory().length / 2;
+                if (subcommand === "unpin" && args[0] === "--all") {
+                  this.chat.unpinAll();
+                  return "All turns unpinned.";
+                }
+                if (args.length > 1 || (args.length === 1 && !/^\d+$/.test(args[0]))) {
+                  throw new Error(`Usage: %chat ${subcommand} [turn]${subcommand === "unpin" ? " | --all" : ""}`);
+                }
+                if (turns === 0) {
+                  throw new Error("Conversation history is empty.");
+                }
+                const turn = args.length === 1 ? Number(args[0]) : turns;
+                this.chat.setPinned(turn, subcommand === "pin");
+                const note = subcommand === "pin" && this.chat.getContextSettings().strategy === "drop-oldest"
+                  ? `\nThe drop-oldest strategy ignores pins; use "%chat context strategy keep-pinned" or "summarize".`
+                  : "";
+                return `Turn ${turn} ${subcommand === "pin" ? "pinned" : "unpinned"}.${note}`;
+              }
+
+              // %chat system [text | --clear | --default] - show or set the system prompt
+              case "system": {
+                if (!rest) {
+                  const current = this.chat.getSystemPrompt();
+                  const source = this.chat.hasSystemPromptOverride() ? "thread" : "settings default";
+                  return current
+                    ? `System prompt (${source}):\n${current}`
+                    : `No system prompt set (${source}).\n\nUse "%chat system <text>" to set one.`;
+                }
+                if (rest === "--clear") {
+                  this.chat.setSystemPrompt("");
+                  return "System prompt cleared for this thread.";
+                }
+                if (rest === "--default") {
+                  this.chat.setSystemPrompt(null);
+                  return "System prompt reset to the settings default.";
+                }
+                this.chat.setSystemPrompt(rest);
+                return "System prompt set for this thread.";
+              }
+
+              // %chat persona [name] - list personas or activate one
+              case "persona":
+              case "personas": {
+                const names = Object.keys(settingsPersonas);
+                const args = tokenizeArgs(rest);
+                if (args.length === 0) {
+                  if (names.length === 0) {
+                    return `No personas defined.\n\nAdd named system prompts under "Personas" in the WebLLM Chat Kernel settings.`;
+                  }
+                  return `Available personas (${names.length}):\n  ${names.join("\n  ")}\n\nUse "%chat persona <name>" to activate one.`;
+                }
+                const name = args[0];
+                if (args.length > 1 || !names.includes(name)) {
+                  throw new Error(`Unknown persona: ${rest}\n\nUse "%chat persona" to see available personas.`);
+                }
+                this.chat.setSystemPrompt(settingsPersonas[name]);
+                return `Persona "${name}" activated.`;
+              }
+
+              // %chat config [key=value ... | --reset] - show or set generation parameters
+              case "config": {
+                const args = tokenizeArgs(rest);
+                if (args.length === 1 && args[0] === "--reset") {
+                  this.chat.resetGenerationConfig();
+                } else if (args.length > 0) {
+                  this.chat.updateGenerationConfig(parseGenerationAssignments(args));
+                }
+                return `Generation parameters:\n${formatGenerationConfig(this.chat.getGenerationConfig())}\n\nUse "%chat config key=value" to change them (temperature, top_p, max_tokens, seed, stop).`;
+              }
+
+              // %chat set [name=value ...] - show or set prompt variables
+              case "set": {
+                for (const arg of tokenizeArgs(rest)) {
+                  const { name, value } = parseAssignment(arg);
+                  if (!VARIABLE_NAME.test(name)) {
+                    throw new Error(`Invalid variable name: ${name}`);
+                  }
+                  this.variables.set(name, value);
+                }
+                if (this.variables.size === 0) {
+                  return `No variables set.\n\nUse "%chat set name=value" and refer to it as {{name}} in prompts.`;
+                }
+                const lines = [...this.variables].map(([name, value]) => `  ${name} = ${JSON.stringify(value)}`);
+                return `Variables:\n${lines.join("\n")}`;
+              }
+
+              // %chat unset <name> ... - remove prompt variables
+              case "unset": {
+                const names = tokenizeArgs(rest);
+                if (names.length === 0) {
+                  throw new Error(`Usage: %chat unset <name> ...`);
+                }
+                const missing = names.filter((name) => !this.variables.has(name));
+                if (missing.length > 0) {
+                  throw new Error(`Unknown variable${missing.length === 1 ? "" : "s"}: ${missing.join(", ")}`);
+                }
+                names.forEach((name) => this.variables.delete(name));
+                return `Removed ${names.join(", ")}.`;
+              }
+
+              // %chat template list|save|show|delete - manage prompt templates
+              // ("%chat template use" is a prompt, see expandPrompt)
+              case "template": {
+                const [, action = "list", name, body] = rest.match(/^(\S+)?(?:\s+(\S+)(?:\s+([\s\S]*))?)?$/) ?? [];
+                if (action === "use") {
+                  return null;
+                }
+                if (action === "list") {
+                  const names = this.getTemplateNames();
+                  return names.length > 0
+                    ? `Templates (${names.length}):\n  ${names.join("\n  ")}\n\nUse "%chat template use <name> [name=value ...]" to send one.`
+                    : `No templates saved.\n\nUse "%chat template save <name>" followed by the template text.`;
+                }
+                if (!["save", "show", "delete"].includes(action)) {
+                  throw new Error(`Unknown template command: ${action}. Use list, save, show, use or delete.`);
+                }
+                if (!name) {
+                  throw new Error(`Usage: %chat template ${action} <name>`);
+                }
+                if (action === "save") {
+                  if (!body?.trim()) {
+                    throw new Error(`Template ${name} is empty. Put the template text after the name or on the following lines.`);
+                  }
+                  this.templates.set(name, body.trim());
+                  return `Template "${name}" saved.`;
+                }
+                const template = this.getTemplate(name);
+                if (template === undefined) {
+                  throw new Error(`Unknown template: ${name}\n\nUse "%chat template list" to see saved templates.`);
+                }
+                if (action === "show") {
+                  return template;
+                }
+                if (!this.templates.has(name)) {
+                  throw new Error(`Template "${name}" is defined in Settings and can only be removed there.`);
+                }
+                this.templates.delete(name);
+                return `Template "${name}" deleted.`;
+              }
+
+              // %chat tools [show|delete <name>] - list or manage %%tool definitions
+              case "tools": {
+                const [action = "list", name, ...extra] = tokenizeArgs(rest);
+                if (action === "list") {
+                  if (this.tools.size === 0) {
+                    return `No tools defined.\n\nDefine one with a "%%tool <name>" cell.`;
+                  }
+                  const lines = [...this.tools.values()].map(
+                    (t) => `${t.name.padEnd(20)} ${t.description}${t.confirm ? " (asks for confirmation)" : ""}`
+                  );
+                  return `Tools (${this.tools.size}):\n  ${lines.join("\n  ")}\n\nStep limit: ${settingsMaxToolSteps} (change it in Settings or per cell with %%chat --max-steps).`;
+                }
+                if (action !== "show" && action !== "delete") {
+                  throw new Error(`Unknown tools command: ${action}. Use list, show or delete.`);
+                }
+                if (!name || extra.length > 0) {
+                  throw new Error(`Usage: %chat tools ${action} <name>`);
+                }
+                const definition = this.tools.get(name);
+                if (!definition) {
+                  throw new Error(`Unknown tool: ${name}\n\nUse "%chat tools" to see defined tools.`);
+                }
+                if (action === "show") {
+                  return `${JSON.stringify(definition.parameters, null, 2)}\n---\n${definition.source}`;
+                }
+                this.tools.delete(name);
+                return `Tool "${name}" deleted.`;
+              }
+
+              // %chat cache list|delete <model>|clear|usage - manage downloaded models
+              case "cache": {
+                const [action = "list", ...args] = tokenizeArgs(rest);
+                switch (action) {
+                  case "list": {
+                    const models = await listCachedModels();
+                    return models.length > 0
+                      ? `${formatCachedModels(models)}\n\nUse "%chat cache delete <model>" to free space.`
+                      : formatCachedModels(models);
+                  }
+                  case "delete": {
+                    if (args.length !== 1) {
+                      throw new Error(`Usage: %chat cache delete <model>`);
+                    }
+                    const { provider, name } = parseModelId(args[0]);
+                    if (provider.id !== "webllm" || !provider.isValidModel(name)) {
+                      throw new Error(`Not a WebLLM model: ${args[0]}\n\nUse "%chat cache list" to see cached models.`);
+                    }
+                    await deleteCachedModel(name);
+                    return `Deleted ${canonicalModelId(args[0])} from the browser cache.`;
+                  }
+                  case "clear": {
+                    const removed = await clearModelCache();
+                    return removed > 0
+                      ? "Deleted all cached WebLLM models."
+                      : "No WebLLM models are cached in this browser.";
+                  }
+                  case "usage": {
+                    const storage = await estimateStorage();
+                    if (!storage) {
+                      throw new Error("This browser does not report storage usage.");
+                    }
+                    return formatStorageUsage(storage, await listCachedModels());
+                  }
+                  default:
+                    throw new Error(`Unknown cache command: ${action}. Use list, delete, clear or usage.`);
+                }
+              }
 
-            console.log(
-              "[WebLLMChatKernel] Sending prompt to WebLLM:",
-              prompt,
-              "using model:",
-              this.modelName
-            );
+              // %chat save <path> - save the conversation to the notebook's contents
+              case "save": {
+                const args = tokenizeArgs(rest);
+                if (args.length !== 1) {
+                  throw new Error(`Usage: %chat save <path>`);
+                }
+                const path = this.resolvePath(args[0]);
+                await getContentsManager().save(path, {
+                  type: "file",
+                  format: "text",
+                  content: JSON.stringify(this.getConversation(), null, 2),
+                });
+                const turns = this.chat.getHistory().length / 2;
+                return `Saved ${turns} turn${turns === 1 ? "" : "s"} to ${path}.`;
+              }
 
-            const availability = await this.model!.availability();
-            if (availability === "unavailable") {
-              throw new Error("Browser does not support WebLLM / WebGPU.");
-            }
-            if (availability === "downloadable" || availability === "downloading") {
-              await this.model!.createSessionWithProgress((report) => {
-                if (typeof window !== "undefined") {
-                  window.dispatchEvent(
-                    new CustomEvent("webllm:model-progress", { detail: report })
-                  );
+              // %chat load <path> - replace the conversation with a saved one
+              case "load": {
+                const args = tokenizeArgs(rest);
+                if (args.length !== 1) {
+                  throw new Error(`Usage: %chat load <path>`);
                 }
-              });
-            }
+                const path = this.resolvePath(args[0]);
+                const file = await getContentsManager().get(path, { type: "file", format: "text", content: true });
+                let data: unknown = file.content;
+                if (typeof data === "string") {
+                  try {
+                    data = JSON.parse(data);
+                  } catch (e: any) {
+                    throw new Error(`${path} is not valid JSON: ${e.message}`);
+                  }
+                }
+                const conversation = parseConversation(data);
+
+                // Everything is checked before the kernel changes, so a failed load leaves it as it was
+                const notes: string[] = [];
+                let modelName: string | null = null;
+                if (conversation.model && conversation.model !== this.chat.getModelName()) {
+                  if (isValidModelId(conversation.model)) {
+                    modelName = conversation.model;
+                  } else {
+                    notes.push(`The saved model ${conversation.model} is not available; keeping the current model.`);
+                  }
+                }
+                await this.chat.restoreConversation(conversation, modelName);
+                if (modelName !== null) {
+                  notes.unshift(`Model set to ${this.chat.getModelName()}.`);
+                }
+                const turns = conversation.messages.length / 2;
+                return [`Loaded ${turns} turn${turns === 1 ? "" : "s"} from ${path}.`, ...notes].join("\n");
+              }
 
-            const result = await streamText({
-              model: this.model!,
-              messages: [{ role: "user", content: prompt }],
-            });
+              // %chat export <path> [--format md|ipynb|jsonl] - export the transcript
+              case "export": {
+                const { flags, positionals } = parseFlags(tokenizeArgs(rest), { format: "string" });
+                if (positionals.length !== 1) {
+                  throw new Error(`Usage: %chat export <path> [--format ${EXPORT_FORMATS.join("|")}]`);
+                }
+                const format = (flags["format"] as string | undefined) ?? exportFormatFromPath(positionals[0]);
+                if (format === undefined) {
+                  throw new Error(`Cannot tell the format from ${positionals[0]}. Use --format ${EXPORT_FORMATS.join("|")}.`);
+                }
+                if (!isExportFormat(format)) {
+                  throw new Error(`Invalid format: ${format}. Use ${EXPORT_FORMATS.join(", ")}.`);
+                }
+                if (this.chat.getHistory().length === 0) {
+                  throw new Error("Nothing to export: the conversation history is empty.");
+                }
+                const path = this.resolvePath(positionals[0]);
+                const content = exportConversation(this.getConversation(), format);
+                await getContentsManager().save(
+                  path,
+                  format === "ipynb"
+                    ? { type: "notebook", format: "json", content }
+                    : { type: "file", format: "text", content }
+                );
+                return `Exported the conversation to ${path}.`;
+              }
 
-            let reply = "";
-            for await (const chunk of result.textStream) {
-              reply += chunk;
-              if (onChunk) {
-                onChunk(chunk);
+              // %chat stats [reset | footer on|off] - token usage and speed per model
+              case "stats": {
+                const [action, ...args] = tokenizeArgs(rest);
+                switch (action) {
+                  case undefined:
+                    return this.chat.getStats().format();
+                  case "reset":
+                    this.chat.getStats().reset();
+                    return "Session statistics cleared.";
+                  case "footer": {
+                    if (args.length === 0) {
+                      const enabled = this.statsFooter ?? settingsStatsFooter;
+                      return `Statistics footer: ${enabled ? "on" : "off"}\n\nUse "%chat stats footer on|off" to change it.`;
+                    }
+                    if (args.length !== 1 || !["on", "off"].includes(args[0])) {
+                      throw new Error(`Usage: %chat stats footer on|off`);
+                    }
+                    this.statsFooter = args[0] === "on";
+                    return `Statistics footer turned ${args[0]}.`;
+                  }
+                  default:
+                    throw new Error(`Unknown stats command: ${action}. Use reset or footer.`);
+                }
               }
-            }
 
-            console.log("[WebLLMChatKernel] Got reply from WebLLM:", reply);
-            return reply;
-          }
-        }
+              // %chat output [plain|markdown] - show or set how replies are rendered
+              case "output": {
+                const mode = rest;
+                if (!mode) {
+                  return `Output mode: ${this.outputMode}\n\nUse "%chat output plain" or "%chat output markdown" to change it.`;
+                }
+                if (mode !== "plain" && mode !== "markdown") {
+                  throw new Error(`Invalid output mode: ${mode}. Use "plain" or "markdown".`);
+                }
+                this.outputMode = mode;
+                return `Output mode set to: ${mode}`;
+              }
 
-        // Define WebLLMLiteKernel extending BaseKernel
-        class WebLLMLiteKernel extends BaseKernel {
-          private chat: WebLLMChatKernel;
+              // %chat help
+              case "help":
+                return CHAT_HELP;
 
-          constructor(options: any) {
-            super(options);
-            this.chat = new WebLLMChatKernel();
+              default:
+                throw new Error(`Unknown command: %chat ${subcommand}\n\nUse "%chat help" to see available commands.`);
+            }
           }
 
           /**
-           * Handle %ai magic commands.
-           * Returns the response text if a magic was handled, or null if not a magic command.
+           * Send a prompt and show the reply per the output mode (see
+           * ReplyRenderer).
            */
-          private handleMagic(code: string): string | null {
-            const trimmed = code.trim();
-            
-            // %chat list [filter] - list all models, optionally filtered
-            const listMatch = trimmed.match(/^%chat\s+list(?:\s+(.+))?$/);
-            if (listMatch || trimmed === "%chat list") {
-              const filter = listMatch?.[1]?.toLowerCase() || "";
-              const filtered = filter 
-                ? WEBLLM_MODELS.filter(m => m.toLowerCase().includes(filter))
-                : WEBLLM_MODELS;
-              
-              if (filtered.length === 0) {
-                return `No models found matching "${filter}".\n\nUse "%chat list" to see all ${WEBLLM_MODELS.length} available models.`;
-              }
-              
-              const modelList = filtered.join("\n  ");
-              const header = filter 
-                ? `Models matching "${filter}" (${filtered.length} of ${WEBLLM_MODELS.length}):`
-                : `All available models (${WEBLLM_MODELS.length}):`;
-              return `${header}\n  ${modelList}\n\nUse "%chat model <name>" to switch models.`;
-            }
-            
-            // %chat model [name] - show current model or set model
-            if (trimmed === "%chat model" || trimmed === "%chat models") {
-              const current = this.chat.getModelName();
-              const status = this.chat.isInitialized() 
-                ? `Current model: ${current}` 
-                : `Model not yet initialized. Default: ${getDefaultModel()}`;
-              return `${status}\n\nUse "%chat list" to see all available models.\nUse "%chat list <filter>" to filter by name (e.g., "%chat list llama").\nUse "%chat model <name>" to switch models.`;
-            }
-            
-            const modelMatch = trimmed.match(/^%chat\s+model\s+(\S+)$/);
-            if (modelMatch) {
-              const modelName = modelMatch[1];
-              try {
-                const result = this.chat.setModel(modelName);
-                return result;
-              } catch (err: any) {
-                throw new Error(`${err.message}\n\nUse "%chat list" to see available models.`);
-              }
-            }
-            
-            // %chat help
-            if (trimmed === "%chat" || trimmed === "%chat help") {
-              return `WebLLM Chat Kernel Magic Commands:
-
-  %chat model            - Show current model
-  %chat model <name>     - Switch to a different model
-  %chat list             - List all available models
-  %chat list <filter>    - List models matching filter (e.g., "%chat list llama")
-  %chat help             - Show this help message
-
-The model is initialized on first cell execution using the default from Settings.
-After initialization, use "%chat model <name>" to switch models.`;
-            }
-            
-            return null; // Not a magic command
+          private async sendRendered(prompt: string, options: SendOptions): Promise<string> {
+            const renderer = new ReplyRenderer(
+              {
+                // @ts-ignore
+                stream: (text) => this.stream({ name: "stdout", text }, this.parentHeader),
+                // @ts-ignore
+                displayData: (content) => this.displayData(content, this.parentHeader),
+                // @ts-ignore
+                updateDisplayData: (content) => this.updateDisplayData(content, this.parentHeader),
+                publishExecuteResult: (content) =>
+                  // @ts-ignore
+                  this.publishExecuteResult({ execution_count: this.executionCount, ...content }, this.parentHeader),
+              },
+              this.outputMode
+            );
+            let stats = null as ReplyStats | null;
+            const reply = await this.chat.send(prompt, (chunk: string) => renderer.chunk(chunk), {
+              ...options,
+              onStats: (replyStats) => {
+                stats = replyStats;
+                options.onStats?.(replyStats);
+              },
+            });
+            renderer.finish(reply, stats ? statsMetadata(stats) : {});
+            return reply;
           }
 
           async executeRequest(content: any): Promise<any> {
             const code = String(content.code ?? "");
+            const storeHistory = content.store_history ?? true;
             try {
               // Check for magic commands first
-              const magicResult = this.handleMagic(code);
+              const magicResult = await this.handleMagic(code);
               if (magicResult !== null) {
+                if (storeHistory) {
+                  // @ts-ignore
+                  this.promptHistory.record(this.executionCount, code, magicResult);
+                }
                 // @ts-ignore
                 this.stream(
                   { name: "stdout", text: magicResult + "\n" },
@@ -308,15 +1940,102 @@ After initialization, use "%chat model <name>" to switch models.`;
                 };
               }
 
-              // Stream each chunk as it arrives using the stream() method for stdout
-              await this.chat.send(code, (chunk: string) => {
+              // A %%tool cell defines (or redefines) a tool
+              const toolDefinition = parseToolCell(code);
+              if (toolDefinition) {
+                const redefined = this.tools.has(toolDefinition.name);
+                this.tools.set(toolDefinition.name, toolDefinition);
+                const message = `Tool "${toolDefinition.name}" ${redefined ? "updated" : "defined"}.` +
+                  (toolDefinition.confirm ? " Each call will ask for confirmation." : "");
                 // @ts-ignore
                 this.stream(
-                  { name: "stdout", text: chunk },
+                  { name: "stdout", text: message + "\n" },
                   // @ts-ignore
                   this.parentHeader
                 );
-              });
+                if (storeHistory) {
+                  // @ts-ignore
+                  this.promptHistory.record(this.executionCount, code, message);
+                }
+                return {
+                  status: "ok",
+                  // @ts-ignore
+                  execution_count: this.executionCount,
+                  payload: [],
+                  user_expressions: {},
+                };
+              }
+
+              // A %%chat header carries options for this cell only
+              const cell = parseCellMagic(code);
+              if (cell && !cell.body) {
+                throw new Error(`%%chat cell has no prompt. Put the prompt on the lines below the %%chat line.`);
+              }
+
+              // Expand templates and placeholders before anything is sent
+              const prompt = this.expandPrompt(cell ? cell.body : code);
+
+              // --json takes a schema inline or the name of a variable holding one
+              const schemaSource = cell?.options.json;
+              const schema = schemaSource === undefined
+                ? null
+                : parseSchema(this.variables.get(schemaSource) ?? schemaSource);
+
+              this.abortController = new AbortController();
+              const progress = this.createProgressDisplay();
+              let stats = null as ReplyStats | null;
+              const sendOptions: SendOptions = {
+                ...cell?.options,
+                abortSignal: this.abortController.signal,
+                onModelProgress: progress.update,
+                onModelReady: progress.clear,
+                onModelWarning: (message) => {
+                  // @ts-ignore
+                  this.stream({ name: "stderr", text: message + "\n" }, this.parentHeader);
+                },
+                tools: this.buildToolSet(),
+                onToolResult: (name, input, result) => this.displayToolCall(name, input, result),
+                onStats: (replyStats) => {
+                  stats = replyStats;
+                },
+                onContextNotice: (message) => {
+                  // @ts-ignore
+                  this.stream({ name: "stderr", text: message + "\n" }, this.parentHeader);
+                },
+              };
+              let reply: string;
+              try {
+                if (schema) {
+                  const object = await this.chat.sendJson(prompt, schema, sendOptions);
+                  reply = JSON.stringify(object, null, 2);
+                  // @ts-ignore
+                  this.publishExecuteResult(
+                    {
+                      // @ts-ignore
+                      execution_count: this.executionCount,
+                      data: { "application/json": object, "text/plain": reply },
+                      metadata: stats ? statsMetadata(stats) : {},
+                    },
+                    // @ts-ignore
+                    this.parentHeader
+                  );
+                } else {
+                  reply = await this.sendRendered(prompt, sendOptions);
+                }
+              } finally {
+                this.abortController = null;
+              }
+              if (stats && (this.statsFooter ?? settingsStatsFooter)) {
+                // @ts-ignore
+                this.displayData({ data: formatStatsFooter(stats), metadata: {} }, this.parentHeader);
+              }
+              if (storeHistory) {
+                // @ts-ignore
+                const count: number = this.executionCount;
+                this.inputs.set(count, prompt);
+                this.outputs.set(count, reply);
+                this.promptHistory.record(count, code, reply);
+              }
 
               return {
                 status: "ok",
@@ -327,10 +2046,15 @@ After initialization, use "%chat model <name>" to switch models.`;
               };
             } catch (err: any) {
               const message = err?.message ?? String(err);
+              const ename = err instanceof KeyboardInterrupt ? "KeyboardInterrupt" : "Error";
+              if (storeHistory) {
+                // @ts-ignore
+                this.promptHistory.record(this.executionCount, code, null);
+              }
               // @ts-ignore
               this.publishExecuteError(
                 {
-                  ename: "Error",
+                  ename,
                   evalue: message,
                   traceback: [],
                 },
@@ -341,7 +2065,7 @@ After initialization, use "%chat model <name>" to switch models.`;
                 status: "error",
                 // @ts-ignore
                 execution_count: this.executionCount,
-                ename: "Error",
+                ename,
                 evalue: message,
                 traceback: [],
               };
@@ -366,6 +2090,27 @@ After initialization, use "%chat model <name>" to switch models.`;
           }
 
           async completeRequest(content: any): Promise<any> {
+            const code = String(content.code ?? "");
+            const cursorPos = content.cursor_pos ?? code.length;
+            // Reading the model cache is slow, so only for %chat cache delete
+            const cachedModels = /%chat\s+cache\s+delete\s/.test(code)
+              ? await listCachedModels().then(
+                  (models) => models.map(({ id }) => id),
+                  () => []
+                )
+              : [];
+            const completion = completeMagic(code, cursorPos, {
+              models: listModelIds(),
+              personas: Object.keys(settingsPersonas),
+              configKeys: GENERATION_KEYS,
+              templates: this.getTemplateNames(),
+              tools: [...this.tools.keys()],
+              threads: this.chat.listThreads().map(({ name }) => name),
+              cachedModels,
+            });
+            if (completion) {
+              return { status: "ok", ...completion, metadata: {} };
+            }
             return {
               status: "ok",
               matches: [],
@@ -375,20 +2120,71 @@ After initialization, use "%chat model <name>" to switch models.`;
             };
           }
 
-          async inspectRequest(_content: any): Promise<any> {
-            return { status: "ok", found: false, data: {}, metadata: {} };
+          async inspectRequest(content: any): Promise<any> {
+            // Inspect the model ID under the cursor, e.g. after "%chat model"
+            const code = String(content.code ?? "");
+            const cursorPos = content.cursor_pos ?? code.length;
+            const start = cursorPos - (code.slice(0, cursorPos).match(/\S*$/)?.[0].length ?? 0);
+            const end = cursorPos + (code.slice(cursorPos).match(/^\S*/)?.[0].length ?? 0);
+            const word = code.slice(start, end);
+            const info = word ? describeModelId(word) : null;
+            if (info === null) {
+              return { status: "ok", found: false, data: {}, metadata: {} };
+            }
+            return { status: "ok", found: true, data: { "text/plain": info }, metadata: {} };
           }
 
           async isCompleteRequest(_content: any): Promise<any> {
             return { status: "complete", indent: "" };
           }
 
-          async commInfoRequest(_content: any): Promise<any> {
-            return { status: "ok", comms: {} };
+          async commInfoRequest(content: any): Promise<any> {
+            const comms: Record<string, { target_name: string }> = {};
+            if (!content?.target_name || content.target_name === COMM_TARGET) {
+              this.comms.forEach((commId) => {
+                comms[commId] = { target_name: COMM_TARGET };
+              });
+            }
+            return { status: "ok", comms };
+          }
+
+          async historyRequest(content: any): Promise<any> {
+            const output = !!content.output;
+            switch (content.hist_access_type) {
+              case "tail":
+                return { status: "ok", history: this.promptHistory.tail(content.n ?? 10, output) };
+              case "range":
+                return {
+                  status: "ok",
+                  history: this.promptHistory.range(content.session ?? 0, content.start ?? 1, content.stop ?? 0, output),
+                };
+              case "search":
+                return {
+                  status: "ok",
+                  history: this.promptHistory.search(content.pattern ?? "*", content.n ?? 0, !!content.unique, output),
+                };
+              default:
+                return { status: "ok", history: [] };
+            }
           }
 
-          async historyRequest(_content: any): Promise<any> {
-            return { status: "ok", history: [] };
+          /**
+           * BaseKernel answers history_request itself from an in-memory list of
+           * inputs and never calls historyRequest(), so replace its handler to
+           * serve the persistent history instead.
+           */
+          protected async _historyRequest(msg: any): Promise<void> {
+            const content = await this.historyRequest(msg.content);
+            // @ts-ignore
+            this._sendMessage(
+              KernelMessage.createMessage({
+                msgType: "history_reply",
+                channel: "shell",
+                parentHeader: msg.header,
+                session: msg.header.session,
+                content,
+              })
+            );
           }
 
           async shutdownRequest(_content: any): Promise<any> {
@@ -396,9 +2192,76 @@ After initialization, use "%chat model <name>" to switch models.`;
           }
 
           async inputReply(_content: any): Promise<void> { }
-          async commOpen(_content: any): Promise<void> { }
-          async commMsg(_content: any): Promise<void> { }
-          async commClose(_content: any): Promise<void> { }
+          /**
+           * Send data to the front end of a webllm.chat comm.
+           */
+          private sendCommData(commId: string, data: Record<string, any>, parentHeader?: any): void {
+            // @ts-ignore
+            this.handleComm("comm_msg", { comm_id: commId, data }, {}, [], parentHeader);
+          }
+
+          async commOpen(msg: any): Promise<void> {
+            const { comm_id, target_name } = msg.content;
+            if (target_name !== COMM_TARGET) {
+              // Tell the front end there is no such target
+              // @ts-ignore
+              this.handleComm("comm_close", { comm_id, data: {} }, {}, [], msg.header);
+              return;
+            }
+            this.comms.add(comm_id);
+            this.sendCommData(comm_id, this.chat.getStatus(), msg.header);
+          }
+
+          async commMsg(msg: any): Promise<void> {
+            const { comm_id, data } = msg.content;
+            if (!this.comms.has(comm_id)) {
+              return;
+            }
+            let request;
+            try {
+              request = parseCommRequest(data);
+            } catch (err: any) {
+              this.sendCommData(comm_id, { type: "error", id: data?.id ?? null, ename: "Error", message: err.message }, msg.header);
+              return;
+            }
+            if (request.type === "status") {
+              this.sendCommData(comm_id, this.chat.getStatus(), msg.header);
+              return;
+            }
+            await this.generateForComm(comm_id, request, msg.header);
+          }
+
+          async commClose(msg: any): Promise<void> {
+            this.comms.delete(msg.content.comm_id);
+          }
+
+          /**
+           * Stream a reply to a comm request. Like a cell, it can be stopped
+           * with the kernel interrupt button.
+           */
+          private async generateForComm(commId: string, request: CommGenerateRequest, parentHeader: any): Promise<void> {
+            const { id } = request;
+            this.abortController = new AbortController();
+            try {
+              const reply = await this.chat.send(
+                request.prompt,
+                (chunk: string) => this.sendCommData(commId, { type: "chunk", id, text: chunk }, parentHeader),
+                {
+                  abortSignal: this.abortController.signal,
+                  model: request.model,
+                  system: request.system,
+                  history: request.history,
+                  generation: request.generation,
+                }
+              );
+              this.sendCommData(commId, { type: "done", id, text: reply }, parentHeader);
+            } catch (err: any) {
+              const ename = err instanceof KeyboardInterrupt ? "KeyboardInterrupt" : "Error";
+              this.sendCommData(commId, { type: "error", id, ename, message: err?.message ?? String(err) }, parentHeader);
+            } finally {
+              this.abortController = null;
+            }
+          }
         }
         // Try to get ISettingRegistry from shared scope (optional)
         let ISettingRegistry: any = null;
@@ -420,6 +2283,17 @@ After initialization, use "%chat model <name>" to switch models.`;
           console.warn("[webllm-chat-kernel] IFormRendererRegistry not available");
         }
 
+        // Token for the chat service shared with other plugins. This bundle
+        // is not importable by other extensions, so the token is also
+        // published on window under the package name for them to require.
+        const IWebLLMChatServiceToken = new Token(
+          "@wiki3-ai/webllm-chat-kernel:IWebLLMChatService",
+          "A chat service that shares loaded WebLLM models between kernels and plugins."
+        );
+        if (typeof window !== "undefined") {
+          window[scope] = { ...window[scope], IWebLLMChatService: IWebLLMChatServiceToken };
+        }
+
         // Define and return the plugin
         const webllmChatKernelPlugin = {
           id: "@wiki3-ai/webllm-chat-kernel:plugin",
@@ -428,23 +2302,73 @@ After initialization, use "%chat model <name>" to switch models.`;
           // https://jupyterlite.readthedocs.io/en/latest/howto/extensions/kernel.html
           requires: [IKernelSpecs],
           optional: [ISettingRegistry, IFormRendererRegistry].filter(Boolean),
-          activate: async (app: any, kernelspecs: any, settingRegistry?: any, formRendererRegistry?: any) => {
+          provides: IWebLLMChatServiceToken,
+          activate: async (app: any, kernelspecs: any, settingRegistry?: any, formRendererRegistry?: any): Promise<IWebLLMChatService> => {
             console.log("[webllm-chat-kernel] ===== ACTIVATE FUNCTION CALLED =====");
             console.log("[webllm-chat-kernel] JupyterLab app:", app);
             console.log("[webllm-chat-kernel] kernelspecs service:", kernelspecs);
             console.log("[webllm-chat-kernel] settingRegistry:", settingRegistry);
             console.log("[webllm-chat-kernel] formRendererRegistry:", formRendererRegistry);
 
+            // Used by %chat save, load and export
+            contentsManager = app.serviceManager?.contents ?? null;
+
+            // Shares the kernels' engine pool with other plugins
+            const chatService = new WebLLMChatService(enginePool, {
+              model: getDefaultModel,
+              resolveModel: resolveDefaultModel,
+              generation: () => settingsGeneration,
+            });
+
             // Load settings if available
             if (settingRegistry) {
               try {
                 const settings = await settingRegistry.load("@wiki3-ai/webllm-chat-kernel:plugin");
                 const updateSettings = () => {
+                  const openaiCompatible = (settings.get("openaiCompatible").composite as any) ?? {};
+                  setOpenAICompatibleSettings({
+                    baseURL: openaiCompatible.baseURL ?? "",
+                    apiKey: openaiCompatible.apiKey ?? "",
+                    models: openaiCompatible.models ?? [],
+                  });
+                  // Idle models still use the previous endpoint and key
+                  enginePool.flushIdle("openai-compat");
+                  // Before the default model, which may be a custom model
+                  const customModels = validateCustomModels(settings.get("customModels").composite);
+                  customModels.errors.forEach((error) => console.warn("[webllm-chat-kernel] Invalid custom model:", error));
+                  setCustomModels(customModels.records, customModels.errors);
+                  const fakeModel = (settings.get("fakeModel").composite as any) ?? {};
+                  setFakeModelSettings(fakeModel);
                   const model = settings.get("defaultModel").composite as string;
-                  if (model && isValidWebLLMModel(model)) {
+                  if (model === AUTO_MODEL) {
+                    settingsDefaultModel = model;
+                    // Detect the GPU early so the service and status know the model
+                    resolveDefaultModel().catch((e) => {
+                      console.warn("[webllm-chat-kernel] Could not pick a model for the GPU:", e);
+                    });
+                  } else if (model && isValidModelId(model)) {
                     settingsDefaultModel = model;
                     console.log("[webllm-chat-kernel] Settings loaded, default model:", model);
                   }
+                  settingsSystemPrompt = (settings.get("systemPrompt").composite as string) ?? "";
+                  settingsPersonas = (settings.get("personas").composite as Record<string, string>) ?? {};
+                  settingsTemplates = (settings.get("templates").composite as Record<string, string>) ?? {};
+                  try {
+                    settingsGeneration = validateGenerationConfig(
+                      settings.get("generation").composite as Record<string, unknown>
+                    );
+                  } catch (e) {
+                    console.warn("[webllm-chat-kernel] Invalid generation settings, using model defaults:", e);
+                    settingsGeneration = {};
+                  }
+                  settingsMaxToolSteps = (settings.get("maxToolSteps").composite as number) ?? 5;
+                  settingsStatsFooter = (settings.get("showStatsFooter").composite as boolean) ?? false;
+                  try {
+                    settingsContext = validateContextSettings(settings.get("contextWindow").composite);
+                  } catch (e) {
+                    console.warn("[webllm-chat-kernel] Invalid context window settings, using defaults:", e);
+                    settingsContext = DEFAULT_CONTEXT_SETTINGS;
+                  }
                 };
                 updateSettings();
                 settings.changed.connect(updateSettings);
@@ -462,13 +2386,25 @@ After initialization, use "%chat model <name>" to switch models.`;
                   const [filterText, setFilterText] = React.useState('');
                   const [isOpen, setIsOpen] = React.useState(false);
                   const containerRef = React.useRef(null);
+                  // Models already downloaded to this browser, marked in the list
+                  const [cachedModels, setCachedModels] = React.useState(new Set<string>());
+                  React.useEffect(() => {
+                    getCachedModelIds().then(setCachedModels);
+                  }, []);
+                  
+                  const [lowResourceOnly, setLowResourceOnly] = React.useState(false);
                   
-                  // Filter models based on search text
-                  const filteredModels = React.useMemo(() => {
-                    if (!filterText) return WEBLLM_MODELS;
+                  // Filter models based on search text, grouped by family
+                  const groups = React.useMemo(() => {
                     const lower = filterText.toLowerCase();
-                    return WEBLLM_MODELS.filter((m: string) => m.toLowerCase().includes(lower));
-                  }, [filterText]);
+                    return groupModelIds(
+                      [AUTO_MODEL, ...listModelIds()].filter((m: string) =>
+                        m.toLowerCase().includes(lower) &&
+                        (!lowResourceOnly || getModelIdInfo(m)?.lowResource)
+                      )
+                    );
+                  }, [filterText, lowResourceOnly]);
+                  const filteredModels = groups.flatMap(([, ids]: [string, string[]]) => ids);
 
                   // Handle click outside to close dropdown
                   React.useEffect(() => {
@@ -497,6 +2433,16 @@ After initialization, use "%chat model <name>" to switch models.`;
                     schema.description && React.createElement('div', { 
                       className: 'jp-FormGroup-description' 
                     }, schema.description),
+                    React.createElement('label', {
+                      style: { display: 'block', margin: '4px 0', fontSize: '12px' }
+                    },
+                      React.createElement('input', {
+                        type: 'checkbox',
+                        checked: lowResourceOnly,
+                        onChange: (e: React.ChangeEvent<HTMLInputElement>) => setLowResourceOnly(e.target.checked)
+                      }),
+                      ' Low-resource models only'
+                    ),
                     React.createElement('div', { 
                       ref: containerRef,
                       style: { position: 'relative' } 
@@ -551,29 +2497,49 @@ After initialization, use "%chat model <name>" to switch models.`;
                                 fontStyle: 'italic'
                               }
                             }, 'No matching models')
-                          : filteredModels.map((model: string, index: number) => 
+                          : groups.flatMap(([group, ids]: [string, string[]]) => [
+                            // Group header, e.g. the model family
+                            React.createElement('div', {
+                              key: `group:${group}`,
+                              style: {
+                                padding: '4px 12px',
+                                fontSize: '11px',
+                                fontWeight: 600,
+                                color: 'var(--jp-ui-font-color2)',
+                                backgroundColor: 'var(--jp-layout-color2)'
+                              }
+                            }, group),
+                            ...ids.map((model: string) => 
                               React.createElement('div', {
                                 key: model,
+                                title: getModelIdInfo(model) ? summarizeModel(getModelIdInfo(model)!) : undefined,
                                 style: {
                                   padding: '6px 12px',
                                   cursor: 'pointer',
                                   backgroundColor: model === formData 
                                     ? 'var(--jp-brand-color3)' 
                                     : 'transparent',
-                                  borderBottom: index < filteredModels.length - 1 
-                                    ? '1px solid var(--jp-border-color2)' 
-                                    : 'none'
+                                  borderBottom: '1px solid var(--jp-border-color2)'
                                 },
                                 onMouseEnter: (e: React.MouseEvent<HTMLDivElement>) => {
-                                  (e.target as HTMLDivElement).style.backgroundColor = 'var(--jp-layout-color2)';
+                                  (e.currentTarget as HTMLDivElement).style.backgroundColor = 'var(--jp-layout-color2)';
                                 },
                                 onMouseLeave: (e: React.MouseEvent<HTMLDivElement>) => {
-                                  (e.target as HTMLDivElement).style.backgroundColor = 
+                                  (e.currentTarget as HTMLDivElement).style.backgroundColor = 
                                     model === formData ? 'var(--jp-brand-color3)' : 'transparent';
                                 },
                                 onClick: () => handleSelect(model)
-                              }, model)
+                              }, model,
+                                cachedModels.has(model) && React.createElement('span', {
+                                  style: {
+                                    marginLeft: '8px',
+                                    fontSize: '11px',
+                                    color: 'var(--jp-success-color1)'
+                                  }
+                                }, '✓ cached')
+                              )
                             )
+                          ])
                       )
                     ),
                     // Show current selection below
@@ -597,9 +2563,33 @@ After initialization, use "%chat model <name>" to switch models.`;
               }
             }
 
+            // Kernels created by this plugin, by kernel id
+            const liveKernels = new Map<string, WebLLMLiteKernel>();
+
+            // JupyterLite handles the interrupt button in its kernel client by
+            // cancelling queued cells only; the running cell is never told. Wrap
+            // the client's interrupt so our kernels can abort the generation.
+            try {
+              const kernelClient = IKernelClient
+                ? await app.resolveOptionalService(IKernelClient)
+                : null;
+              if (kernelClient && typeof kernelClient.interrupt === "function") {
+                const interrupt = kernelClient.interrupt.bind(kernelClient);
+                kernelClient.interrupt = async (kernelId: string) => {
+                  liveKernels.get(kernelId)?.interrupt();
+                  return interrupt(kernelId);
+                };
+                console.log("[webllm-chat-kernel] Hooked kernel interrupt");
+              } else {
+                console.warn("[webllm-chat-kernel] Kernel client not available, interrupt will not stop generation");
+              }
+            } catch (e) {
+              console.warn("[webllm-chat-kernel] Could not hook kernel interrupt:", e);
+            }
+
             if (!kernelspecs || typeof kernelspecs.register !== "function") {
               console.error("[webllm-chat-kernel] ERROR: kernelspecs.register not available!");
-              return;
+              return chatService;
             }
 
             try {
@@ -613,7 +2603,10 @@ After initialization, use "%chat model <name>" to switch models.`;
                 },
                 create: async (options: any) => {
                   console.log("[webllm-chat-kernel] Creating WebLLMLiteKernel instance", options);
-                  return new WebLLMLiteKernel(options);
+                  const kernel = new WebLLMLiteKernel(options);
+                  liveKernels.set(kernel.id, kernel);
+                  kernel.disposed.connect(() => liveKernels.delete(kernel.id));
+                  return kernel;
                 },
               });
 
@@ -631,14 +2624,20 @@ After initialization, use "%chat model <name>" to switch models.`;
             class ModelSelectorDialogBody extends Widget {
               private _select: HTMLSelectElement;
               private _filter: HTMLInputElement;
+              private _lowResource: HTMLInputElement;
               private _modelList: HTMLDivElement;
               private _selectedModel: string;
               private _allModels: string[];
+              private _cached = new Set<string>();
               
-              constructor(currentModel: string) {
+              /**
+               * @param currentModel - Model selected at first; empty to start
+               *   with no selection and the accept button disabled until one is made
+               */
+              constructor(currentModel: string, models: string[] = listModelIds()) {
                 super();
                 this._selectedModel = currentModel;
-                this._allModels = WEBLLM_MODELS;
+                this._allModels = models;
                 
                 this.node.style.cssText = 'min-width: 400px; padding: 12px;';
                 
@@ -656,6 +2655,14 @@ After initialization, use "%chat model <name>" to switch models.`;
                 this._filter.addEventListener('input', () => this._updateList());
                 this.node.appendChild(this._filter);
                 
+                const lowResourceLabel = document.createElement('label');
+                lowResourceLabel.style.cssText = 'display: block; margin-bottom: 12px;';
+                this._lowResource = document.createElement('input');
+                this._lowResource.type = 'checkbox';
+                this._lowResource.addEventListener('change', () => this._updateList());
+                lowResourceLabel.append(this._lowResource, ' Low-resource models only');
+                this.node.appendChild(lowResourceLabel);
+                
                 // Create model list container
                 const listLabel = document.createElement('label');
                 listLabel.textContent = 'Select model:';
@@ -674,10 +2681,15 @@ After initialization, use "%chat model <name>" to switch models.`;
                 // Current selection display
                 const currentLabel = document.createElement('div');
                 currentLabel.style.cssText = 'margin-top: 12px; padding: 8px; background: var(--jp-layout-color2); border-radius: 4px;';
-                currentLabel.innerHTML = `<strong>Current:</strong> <span id="current-model">${currentModel}</span>`;
+                currentLabel.innerHTML = `<strong>Current:</strong> <span id="current-model">${currentModel || 'none selected'}</span>`;
                 this.node.appendChild(currentLabel);
                 
                 this._updateList();
+                // Mark downloaded models once the cache has been read
+                getCachedModelIds().then((cached) => {
+                  this._cached = cached;
+                  this._updateList();
+                });
                 
                 // Focus filter on show
                 setTimeout(() => this._filter.focus(), 100);
@@ -685,12 +2697,21 @@ After initialization, use "%chat model <name>" to switch models.`;
               
               private _updateList(): void {
                 const filter = this._filter.value.toLowerCase();
-                const filtered = filter 
-                  ? this._allModels.filter(m => m.toLowerCase().includes(filter))
-                  : this._allModels;
+                const lowResourceOnly = this._lowResource.checked;
+                const filtered = this._allModels.filter(m =>
+                  m.toLowerCase().includes(filter) &&
+                  (!lowResourceOnly || getModelIdInfo(m)?.lowResource)
+                );
                 
                 this._modelList.innerHTML = '';
                 this._select.innerHTML = '';
+                if (!this._selectedModel) {
+                  const placeholder = document.createElement('option');
+                  placeholder.value = '';
+                  placeholder.textContent = 'Select a model';
+                  placeholder.selected = true;
+                  this._select.appendChild(placeholder);
+                }
                 
                 if (filtered.length === 0) {
                   const noMatch = document.createElement('div');
@@ -700,38 +2721,72 @@ After initialization, use "%chat model <name>" to switch models.`;
                   return;
                 }
                 
-                filtered.forEach(model => {
-                  const option = document.createElement('option');
-                  option.value = model;
-                  option.textContent = model;
-                  if (model === this._selectedModel) option.selected = true;
-                  this._select.appendChild(option);
+                groupModelIds(filtered).forEach(([group, models]) => {
+                  // Group header, e.g. the model family
+                  const header = document.createElement('div');
+                  header.textContent = group;
+                  header.style.cssText = 'padding: 4px 12px; font-size: 11px; font-weight: 600; color: var(--jp-ui-font-color2); background: var(--jp-layout-color2);';
+                  this._modelList.appendChild(header);
                   
-                  const item = document.createElement('div');
-                  item.textContent = model;
-                  item.style.cssText = `
-                    padding: 8px 12px; 
-                    cursor: pointer; 
-                    border-bottom: 1px solid var(--jp-border-color2);
-                    background: ${model === this._selectedModel ? 'var(--jp-brand-color3)' : 'transparent'};
-                  `;
-                  item.addEventListener('mouseenter', () => {
-                    if (model !== this._selectedModel) {
-                      item.style.background = 'var(--jp-layout-color2)';
-                    }
-                  });
-                  item.addEventListener('mouseleave', () => {
-                    item.style.background = model === this._selectedModel ? 'var(--jp-brand-color3)' : 'transparent';
-                  });
-                  item.addEventListener('click', () => {
-                    this._selectedModel = model;
-                    this._select.value = model;
-                    const currentSpan = this.node.querySelector('#current-model');
-                    if (currentSpan) currentSpan.textContent = model;
-                    this._updateList();
-                  });
-                  this._modelList.appendChild(item);
+                  models.forEach(model => this._appendItem(model));
+                });
+              }
+              
+              private _appendItem(model: string): void {
+                const option = document.createElement('option');
+                option.value = model;
+                option.textContent = model;
+                if (model === this._selectedModel) option.selected = true;
+                this._select.appendChild(option);
+                
+                const item = document.createElement('div');
+                item.textContent = model;
+                const info = getModelIdInfo(model);
+                if (info) {
+                  item.title = summarizeModel(info);
+                }
+                if (this._cached.has(model)) {
+                  const badge = document.createElement('span');
+                  badge.textContent = '✓ cached';
+                  badge.style.cssText = 'margin-left: 8px; font-size: 11px; color: var(--jp-success-color1);';
+                  item.appendChild(badge);
+                }
+                item.style.cssText = `
+                  padding: 8px 12px; 
+                  cursor: pointer; 
+                  border-bottom: 1px solid var(--jp-border-color2);
+                  background: ${model === this._selectedModel ? 'var(--jp-brand-color3)' : 'transparent'};
+                `;
+                item.addEventListener('mouseenter', () => {
+                  if (model !== this._selectedModel) {
+                    item.style.background = 'var(--jp-layout-color2)';
+                  }
+                });
+                item.addEventListener('mouseleave', () => {
+                  item.style.background = model === this._selectedModel ? 'var(--jp-brand-color3)' : 'transparent';
+                });
+                item.addEventListener('click', () => {
+                  this._selectedModel = model;
+                  this._select.value = model;
+                  const currentSpan = this.node.querySelector('#current-model');
+                  if (currentSpan) currentSpan.textContent = model;
+                  this._updateList();
+                  this._updateAcceptButton();
                 });
+                this._modelList.appendChild(item);
+              }
+              
+              protected onAfterAttach(msg: any): void {
+                super.onAfterAttach(msg);
+                this._updateAcceptButton();
+              }
+              
+              // Nothing can be accepted before a model is selected
+              private _updateAcceptButton(): void {
+                const button = this.node.closest('.jp-Dialog-content')?.querySelector('.jp-Dialog-button.jp-mod-accept');
+                if (button instanceof HTMLButtonElement) {
+                  button.disabled = !this._selectedModel;
+                }
               }
               
               getValue(): string {
@@ -759,7 +2814,7 @@ After initialization, use "%chat model <name>" to switch models.`;
               execute: async () => {
                 // Show custom model selection dialog
                 const currentModel = settingsDefaultModel || DEFAULT_WEBLLM_MODEL;
-                const body = new ModelSelectorDialogBody(currentModel);
+                const body = new ModelSelectorDialogBody(currentModel, [AUTO_MODEL, ...listModelIds()]);
                 
                 const result = await showDialog({
                   title: 'Change Model',
@@ -772,7 +2827,7 @@ After initialization, use "%chat model <name>" to switch models.`;
                 
                 if (result.button.accept) {
                   const newModel = body.getValue();
-                  if (newModel && newModel !== currentModel && isValidWebLLMModel(newModel)) {
+                  if (newModel && newModel !== currentModel && (newModel === AUTO_MODEL || isValidModelId(newModel))) {
                     // Update the settings
                     if (settingRegistry) {
                       try {
@@ -792,6 +2847,95 @@ After initialization, use "%chat model <name>" to switch models.`;
               }
             });
 
+            // Model cache commands, shown next to the model picker
+            const CACHE_USAGE_COMMAND = "webllm-chat-kernel:cache-usage";
+            const CACHE_DELETE_COMMAND = "webllm-chat-kernel:cache-delete";
+            const CACHE_CLEAR_COMMAND = "webllm-chat-kernel:cache-clear";
+
+            // Dialog body for preformatted text
+            const textBody = (text: string) => {
+              const body = new Widget();
+              body.node.style.cssText = 'white-space: pre; font-family: var(--jp-code-font-family); min-width: 400px;';
+              body.node.textContent = text;
+              return body;
+            };
+
+            app.commands.addCommand(CACHE_USAGE_COMMAND, {
+              label: "Show WebLLM Model Storage",
+              execute: async () => {
+                const models = await listCachedModels();
+                const storage = await estimateStorage();
+                const text = storage
+                  ? `${formatStorageUsage(storage, models)}\n\n${formatCachedModels(models)}`
+                  : formatCachedModels(models);
+                await showDialog({
+                  title: 'WebLLM Model Storage',
+                  body: textBody(text),
+                  buttons: [Dialog.okButton({ label: 'Close' })]
+                });
+              }
+            });
+
+            app.commands.addCommand(CACHE_DELETE_COMMAND, {
+              label: "Delete Cached WebLLM Model...",
+              execute: async () => {
+                const models = (await listCachedModels()).map((model) => model.id);
+                if (models.length === 0) {
+                  await showDialog({
+                    title: 'Delete Cached Model',
+                    body: 'No WebLLM models are cached in this browser.',
+                    buttons: [Dialog.okButton()]
+                  });
+                  return;
+                }
+                // No preselection, so that Delete removes only a model the user picked
+                const body = new ModelSelectorDialogBody('', models);
+                const result = await showDialog({
+                  title: 'Delete Cached Model',
+                  body,
+                  buttons: [
+                    Dialog.cancelButton(),
+                    Dialog.warnButton({ label: 'Delete' })
+                  ]
+                });
+                const model = body.getValue();
+                if (result.button.accept && model) {
+                  await deleteCachedModel(parseModelId(model).name);
+                  console.log("[webllm-chat-kernel] Deleted cached model:", model);
+                }
+              }
+            });
+
+            app.commands.addCommand(CACHE_CLEAR_COMMAND, {
+              label: "Delete All Cached WebLLM Models...",
+              execute: async () => {
+                const result = await showDialog({
+                  title: 'Delete All Cached Models',
+                  body: 'Delete every downloaded WebLLM model from this browser? They will be downloaded again when next used.',
+                  buttons: [
+                    Dialog.cancelButton(),
+                    Dialog.warnButton({ label: 'Delete All' })
+                  ]
+                });
+                if (result.button.accept) {
+                  await clearModelCache();
+                  console.log("[webllm-chat-kernel] Cleared model cache");
+                }
+              }
+            });
+
+            // Add cache commands to the command palette if available
+            try {
+              const palette = await app.resolveOptionalService?.(ICommandPalette);
+              if (palette) {
+                [CACHE_USAGE_COMMAND, CACHE_DELETE_COMMAND, CACHE_CLEAR_COMMAND].forEach((command) =>
+                  palette.addItem({ command, category: "WebLLM Chat" })
+                );
+              }
+            } catch (e) {
+              console.log("[webllm-chat-kernel] Could not add commands to the command palette:", e);
+            }
+
             // Add to Settings menu if IMainMenu is available
             try {
               const mainMenuModule = await importShared("@jupyterlab/mainmenu");
@@ -801,8 +2945,13 @@ After initialization, use "%chat model <name>" to switch models.`;
                 const mainMenu = app.serviceManager?.mainMenu || 
                   (app as any)._plugins?.get?.(IMainMenu.name)?.service;
                 if (mainMenu?.settingsMenu) {
-                  mainMenu.settingsMenu.addGroup([{ command: SETTINGS_COMMAND }], 100);
-                  console.log("[webllm-chat-kernel] Added settings command to Settings menu");
+                  mainMenu.settingsMenu.addGroup([
+                    { command: SETTINGS_COMMAND },
+                    { command: CACHE_USAGE_COMMAND },
+                    { command: CACHE_DELETE_COMMAND },
+                    { command: CACHE_CLEAR_COMMAND }
+                  ], 100);
+                  console.log("[webllm-chat-kernel] Added model commands to Settings menu");
                 }
               }
             } catch (e) {
@@ -822,6 +2971,8 @@ After initialization, use "%chat model <name>" to switch models.`;
                 console.log(`[webllm-chat-kernel] ${text || "Loading"}${suffix}`);
               });
             }
+
+            return chatService;
           },
         };
 
@@ -0,0 +1,126 @@
+// src/generation.ts
+// Generation (sampling) parameters for the chat kernel.
+//
+// Parameters use the snake_case names people know from OpenAI-style APIs,
+// both in the %chat config magic and in the settings schema, and are mapped
+// onto the AI SDK call settings accepted by `streamText`.
+
+import type { CallSettings } from "ai";
+import { parseAssignment } from "./args.js";
+
+export interface GenerationConfig {
+  temperature?: number;
+  top_p?: number;
+  max_tokens?: number;
+  seed?: number;
+  stop?: string[];
+}
+
+export type GenerationKey = keyof GenerationConfig;
+
+export const GENERATION_KEYS: GenerationKey[] = [
+  "temperature",
+  "top_p",
+  "max_tokens",
+  "seed",
+  "stop",
+];
+
+function isGenerationKey(key: string): key is GenerationKey {
+  return (GENERATION_KEYS as string[]).includes(key);
+}
+
+function parseNumber(key: string, value: unknown, min: number, max: number, integer: boolean): number {
+  const num = typeof value === "number" ? value : typeof value === "string" && value.trim() !== "" ? Number(value) : NaN;
+  if (!Number.isFinite(num) || (integer && !Number.isInteger(num))) {
+    throw new Error(`Invalid value for ${key}: ${String(value)} (expected ${integer ? "an integer" : "a number"})`);
+  }
+  if (num < min || num > max) {
+    throw new Error(`Invalid value for ${key}: ${num} (expected ${min} to ${max})`);
+  }
+  return num;
+}
+
+/**
+ * Validate and normalize a single generation parameter.
+ * Throws an Error with a user-facing message on invalid input.
+ */
+function validateValue(key: GenerationKey, value: unknown): number | string[] {
+  switch (key) {
+    case "temperature":
+      return parseNumber(key, value, 0, 2, false);
+    case "top_p":
+      return parseNumber(key, value, 0, 1, false);
+    case "max_tokens":
+      return parseNumber(key, value, 1, Number.MAX_SAFE_INTEGER, true);
+    case "seed":
+      return parseNumber(key, value, 0, Number.MAX_SAFE_INTEGER, true);
+    case "stop": {
+      const list = Array.isArray(value) ? value : [value];
+      if (list.some((s) => typeof s !== "string" || s === "")) {
+        throw new Error(`Invalid value for stop: expected non-empty strings`);
+      }
+      return list as string[];
+    }
+  }
+}
+
+/**
+ * Validate a generation config object, e.g. the one stored in Settings.
+ */
+export function validateGenerationConfig(raw: Record<string, unknown>): GenerationConfig {
+  const config: GenerationConfig = {};
+  for (const [key, value] of Object.entries(raw ?? {})) {
+    if (value === undefined || value === null) {
+      continue;
+    }
+    if (!isGenerationKey(key)) {
+      throw new Error(`Unknown generation parameter: ${key}. Valid parameters: ${GENERATION_KEYS.join(", ")}`);
+    }
+    (config as any)[key] = validateValue(key, value);
+  }
+  return config;
+}
+
+/**
+ * Parse `key=value` assignments from the %chat config magic.
+ * Repeating `stop=` adds another stop sequence.
+ */
+export function parseGenerationAssignments(args: string[]): GenerationConfig {
+  const config: GenerationConfig = {};
+  for (const arg of args) {
+    const { name: key, value } = parseAssignment(arg);
+    if (!isGenerationKey(key)) {
+      throw new Error(`Unknown generation parameter: ${key}. Valid parameters: ${GENERATION_KEYS.join(", ")}`);
+    }
+    if (key === "stop") {
+      config.stop = [...(config.stop ?? []), ...(validateValue(key, value) as string[])];
+    } else {
+      (config as any)[key] = validateValue(key, value);
+    }
+  }
+  return config;
+}
+
+/**
+ * Format a generation config for display, one parameter per line.
+ */
+export function formatGenerationConfig(config: GenerationConfig): string {
+  const lines = GENERATION_KEYS.filter((key) => config[key] !== undefined).map(
+    (key) => `  ${key} = ${JSON.stringify(config[key])}`
+  );
+  return lines.length > 0 ? lines.join("\n") : "  (model defaults)";
+}
+
+/**
+ * Map a generation config onto the AI SDK call settings.
+ */
+export function toCallSettings(config: GenerationConfig): CallSettings {
+  return {
+    temperature: config.temperature,
+    topP: config.top_p,
+    maxOutputTokens: config.max_tokens,
+    seed: config.seed,
+    stopSequences: config.stop,
+  };
+}
@@ -0,0 +1,215 @@
+// src/gpu.ts
+// WebGPU capability detection, for %chat doctor and the "auto" default model.
+//
+// WebGPU does not expose the amount of GPU memory, so the memory budget is
+// estimated from the browser's device memory hint. Detection reads from a
+// GpuEnvironment, which defaults to the browser's navigator and can be
+// replaced by a stub to test without a GPU.
+
+import type { ModelRecord } from "@mlc-ai/web-llm";
+import { type StorageUsage, estimateStorage, formatBytes } from "./cache.js";
+import { PREFERRED_DEFAULTS, DEFAULT_WEBLLM_MODEL, getWebLLMModelRecord } from "./models.js";
+
+// The subset of the WebGPU API used for detection
+export interface GpuAdapterLike {
+  features: { has(feature: string): boolean; forEach(callback: (feature: string) => void): void };
+  limits: Record<string, any>;
+  /** GPUAdapterInfo; older browsers only have requestAdapterInfo() */
+  info?: Partial<GpuAdapterInfo>;
+  requestAdapterInfo?(): Promise<Partial<GpuAdapterInfo>>;
+}
+
+export interface GpuLike {
+  requestAdapter(options?: { powerPreference?: string }): Promise<GpuAdapterLike | null>;
+}
+
+export interface GpuEnvironment {
+  /** navigator.gpu */
+  gpu?: GpuLike;
+  /** navigator.deviceMemory, in GB (Chromium only, capped at 8) */
+  deviceMemory?: number;
+  estimateStorage?: () => Promise<StorageUsage | null>;
+}
+
+export interface GpuAdapterInfo {
+  vendor: string;
+  architecture: string;
+  device: string;
+  description: string;
+}
+
+export interface GpuLimits {
+  maxBufferSize: number;
+  maxStorageBufferBindingSize: number;
+  maxComputeWorkgroupStorageSize: number;
+}
+
+export interface GpuReport {
+  /** Whether the browser exposes navigator.gpu */
+  webgpu: boolean;
+  adapter: GpuAdapterInfo | null;
+  limits: GpuLimits | null;
+  features: string[];
+  shaderF16: boolean;
+  deviceMemoryGB: number | null;
+  storage: StorageUsage | null;
+  /** Why no adapter is available */
+  error: string | null;
+}
+
+// WebLLM asks for 1 GB storage buffer bindings, and falls back to 128 MB,
+// which only low-resource models work with
+const FULL_BINDING_SIZE = 1 << 30;
+
+// Share of device memory assumed to be usable by the GPU
+const GPU_MEMORY_SHARE = 0.5;
+
+export function browserGpuEnvironment(): GpuEnvironment {
+  const nav: any = typeof navigator === "undefined" ? {} : navigator;
+  return { gpu: nav.gpu, deviceMemory: nav.deviceMemory, estimateStorage };
+}
+
+/**
+ * Probe the WebGPU adapter, its limits and features, and the storage quota.
+ */
+export async function detectGpu(env: GpuEnvironment = browserGpuEnvironment()): Promise<GpuReport> {
+  const report: GpuReport = {
+    webgpu: env.gpu !== undefined,
+    adapter: null,
+    limits: null,
+    features: [],
+    shaderF16: false,
+    deviceMemoryGB: typeof env.deviceMemory === "number" ? env.deviceMemory : null,
+    storage: null,
+    error: null,
+  };
+  try {
+    report.storage = (await env.estimateStorage?.()) ?? null;
+  } catch (e) {
+    console.warn("[webllm-chat-kernel] Could not estimate storage:", e);
+  }
+  if (!env.gpu) {
+    report.error = "navigator.gpu is missing: this browser does not support WebGPU, or it is disabled.";
+    return report;
+  }
+
+  let adapter: GpuAdapterLike | null = null;
+  try {
+    adapter = await env.gpu.requestAdapter({ powerPreference: "high-performance" });
+  } catch (e: any) {
+    report.error = `requestAdapter() failed: ${e?.message ?? e}`;
+    return report;
+  }
+  if (!adapter) {
+    report.error = "No WebGPU adapter found: the GPU may be blocklisted or the driver unsupported.";
+    return report;
+  }
+
+  const info = adapter.info ?? (await adapter.requestAdapterInfo?.().catch(() => undefined)) ?? {};
+  report.adapter = {
+    vendor: info.vendor ?? "",
+    architecture: info.architecture ?? "",
+    device: info.device ?? "",
+    description: info.description ?? "",
+  };
+  report.limits = {
+    maxBufferSize: Number(adapter.limits.maxBufferSize ?? 0),
+    maxStorageBufferBindingSize: Number(adapter.limits.maxStorageBufferBindingSize ?? 0),
+    maxComputeWorkgroupStorageSize: Number(adapter.limits.maxComputeWorkgroupStorageSize ?? 0),
+  };
+  adapter.features.forEach((feature) => report.features.push(feature));
+  report.features.sort();
+  report.shaderF16 = adapter.features.has("shader-f16");
+  return report;
+}
+
+/**
+ * Estimated GPU memory available to a model in MB, or null if unknown.
+ */
+export function gpuMemoryBudgetMB(report: GpuReport): number | null {
+  return report.deviceMemoryGB === null ? null : report.deviceMemoryGB * 1024 * GPU_MEMORY_SHARE;
+}
+
+/**
+ * Reasons a WebLLM model will likely fail to load on this GPU. Empty if it
+ * should fit (or nothing is known about the GPU's memory).
+ */
+export function checkModelFit(record: ModelRecord, report: GpuReport): string[] {
+  if (!report.limits) {
+    return [report.error ?? "No WebGPU adapter available."];
+  }
+  const problems: string[] = [];
+  for (const feature of record.required_features ?? []) {
+    if (!report.features.includes(feature)) {
+      problems.push(`it needs the WebGPU feature ${feature}, which this GPU does not support`);
+    }
+  }
+  if (!record.low_resource_required && report.limits.maxStorageBufferBindingSize < FULL_BINDING_SIZE) {
+    problems.push(
+      `the GPU limits storage buffer bindings to ${formatBytes(report.limits.maxStorageBufferBindingSize)}, ` +
+        `which only low-resource models work with`
+    );
+  }
+  const budget = gpuMemoryBudgetMB(report);
+  if (budget !== null && record.vram_required_MB !== undefined && record.vram_required_MB > budget) {
+    problems.push(
+      `it needs about ${Math.round(record.vram_required_MB)} MB of GPU memory, ` +
+        `more than the estimated ${Math.round(budget)} MB available`
+    );
+  }
+  return problems;
+}
+
+/**
+ * Pick the largest preferred model that fits the detected GPU, falling back
+ * to the smallest one.
+ */
+export function chooseAutoModel(report: GpuReport): string {
+  const candidates = PREFERRED_DEFAULTS.map((id) => getWebLLMModelRecord(id)).filter(
+    (record): record is ModelRecord => record !== undefined
+  );
+  const bySize = [...candidates].sort((a, b) => (b.vram_required_MB ?? 0) - (a.vram_required_MB ?? 0));
+  // Without a memory estimate, larger models are a guess; stay with the smallest
+  const fitting =
+    gpuMemoryBudgetMB(report) === null ? [] : bySize.filter((record) => checkModelFit(record, report).length === 0);
+  return fitting[0]?.model_id ?? bySize.at(-1)?.model_id ?? DEFAULT_WEBLLM_MODEL;
+}
+
+/**
+ * Multi-line report for %chat doctor.
+ */
+export function formatGpuReport(report: GpuReport): string {
+  const lines = [`WebGPU:                     ${report.webgpu ? "available" : "not available"}`];
+  if (report.adapter) {
+    const { vendor, architecture, device, description } = report.adapter;
+    const name = [vendor, architecture].filter(Boolean).join(" ") || "unknown";
+    const details = [description, device].filter(Boolean).join(", ");
+    lines.push(`Adapter:                    ${name}${details ? ` (${details})` : ""}`);
+  }
+  if (report.error) {
+    lines.push(`Problem:                    ${report.error}`);
+  }
+  if (report.limits) {
+    lines.push(
+      `shader-f16:                 ${report.shaderF16 ? "supported" : "not supported (f16 models will not load)"}`,
+      `Max buffer size:            ${formatBytes(report.limits.maxBufferSize)}`,
+      `Max storage buffer binding: ${formatBytes(report.limits.maxStorageBufferBindingSize)}` +
+        (report.limits.maxStorageBufferBindingSize < FULL_BINDING_SIZE ? " (low-resource models only)" : ""),
+      `Max workgroup storage:      ${formatBytes(report.limits.maxComputeWorkgroupStorageSize)}`,
+      `Features:                   ${report.features.join(", ") || "none"}`
+    );
+  }
+  const budget = gpuMemoryBudgetMB(report);
+  lines.push(
+    `Device memory:              ${report.deviceMemoryGB !== null ? `${report.deviceMemoryGB} GB` : "unknown"}`,
+    `Estimated GPU budget:       ${budget !== null ? `${Math.round(budget)} MB` : "unknown"}`
+  );
+  if (report.storage) {
+    const { usage, quota } = report.storage;
+    const percent = quota > 0 ? ` (${((usage / quota) * 100).toFixed(1)}%)` : "";
+    lines.push(`Storage:                    ${formatBytes(usage)} used of ${formatBytes(quota)}${percent}`);
+  } else {
+    lines.push(`Storage:                    quota unknown`);
+  }
+  return lines.join("\n");
+}
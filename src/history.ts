@@ -0,0 +1,157 @@
+// src/history.ts
+// Prompt/reply history, persisted in browser storage across reloads.
+//
+// Follows the Jupyter messaging protocol's history model: each kernel run is
+// a session with an increasing number, and each executed cell is a line in
+// that session numbered by its execution count.
+
+export interface HistoryEntry {
+  session: number;
+  line: number;
+  input: string;
+  /** The reply or magic output; null if the cell failed */
+  output: string | null;
+}
+
+/** A history_reply item: (session, line, input) or (session, line, (input, output)) */
+export type HistoryItem = [number, number, string] | [number, number, [string, string | null]];
+
+/** Minimal subset of the Web Storage API that the history needs */
+export interface HistoryStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+}
+
+const STORAGE_KEY = "@wiki3-ai/webllm-chat-kernel:history";
+// Last session number handed out, so that kernels started together get their own
+const SESSION_KEY = `${STORAGE_KEY}:lastSession`;
+const MAX_ENTRIES = 1000;
+
+function isQuotaExceeded(e: any): boolean {
+  return e?.name === "QuotaExceededError" || e?.name === "NS_ERROR_DOM_QUOTA_REACHED" || e?.code === 22;
+}
+
+/**
+ * Convert a glob pattern (`*` and `?`) into an anchored regular expression.
+ */
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split("")
+    .map((ch) => (ch === "*" ? "[\\s\\S]*" : ch === "?" ? "[\\s\\S]" : ch.replace(/[.+^${}()|[\]\\]/g, "\\$&")))
+    .join("");
+  return new RegExp(`^${source}$`);
+}
+
+export class PersistentHistory {
+  /** Session number of the kernel that owns this history */
+  readonly session: number;
+  private storage: HistoryStorage | null;
+
+  constructor(storage: HistoryStorage | null) {
+    this.storage = storage;
+    this.session = this.allocateSession();
+  }
+
+  /**
+   * Take the next session number and store it at once, before any cell is
+   * recorded in the session.
+   */
+  private allocateSession(): number {
+    let last = this.load().reduce((max, entry) => Math.max(max, entry.session), 0);
+    try {
+      last = Math.max(last, Number(this.storage?.getItem(SESSION_KEY)) || 0);
+      this.storage?.setItem(SESSION_KEY, String(last + 1));
+    } catch (e) {
+      console.warn("[webllm-chat-kernel] Could not reserve a history session:", e);
+    }
+    return last + 1;
+  }
+
+  /**
+   * Read all entries. Storage is re-read on every access so that kernels in
+   * other tabs don't overwrite each other's entries.
+   */
+  private load(): HistoryEntry[] {
+    try {
+      const raw = this.storage?.getItem(STORAGE_KEY);
+      return raw ? (JSON.parse(raw) as HistoryEntry[]) : [];
+    } catch (e) {
+      console.warn("[webllm-chat-kernel] Could not read history:", e);
+      return [];
+    }
+  }
+
+  /**
+   * Write the entries, dropping the oldest ones until they fit in the
+   * storage quota.
+   */
+  private save(entries: HistoryEntry[]): void {
+    let kept = entries.slice(-MAX_ENTRIES);
+    for (;;) {
+      try {
+        this.storage?.setItem(STORAGE_KEY, JSON.stringify(kept));
+        return;
+      } catch (e) {
+        if (!isQuotaExceeded(e) || kept.length === 0) {
+          console.warn("[webllm-chat-kernel] Could not save history:", e);
+          return;
+        }
+        kept = kept.slice(Math.ceil(kept.length / 4));
+      }
+    }
+  }
+
+  /**
+   * Record an executed cell in the current session.
+   */
+  record(line: number, input: string, output: string | null): void {
+    const entries = this.load();
+    entries.push({ session: this.session, line, input, output });
+    this.save(entries);
+  }
+
+  private toItems(entries: HistoryEntry[], output: boolean): HistoryItem[] {
+    return entries.map((entry) =>
+      output
+        ? [entry.session, entry.line, [entry.input, entry.output]]
+        : [entry.session, entry.line, entry.input]
+    );
+  }
+
+  /**
+   * The last n entries across all sessions.
+   */
+  tail(n: number, output: boolean): HistoryItem[] {
+    const entries = this.load();
+    return this.toItems(n > 0 ? entries.slice(-n) : entries, output);
+  }
+
+  /**
+   * Lines [start, stop) of a session. Session 0 is the current session and
+   * negative numbers count back from it; a stop of 0 or less means "to the end".
+   */
+  range(session: number, start: number, stop: number, output: boolean): HistoryItem[] {
+    const target = session <= 0 ? this.session + session : session;
+    const entries = this.load().filter(
+      (entry) => entry.session === target && entry.line >= start && (stop <= 0 || entry.line < stop)
+    );
+    return this.toItems(entries, output);
+  }
+
+  /**
+   * Entries whose input matches a glob pattern; the last n if n > 0. With
+   * `unique`, only the most recent occurrence of each input is kept.
+   */
+  search(pattern: string, n: number, unique: boolean, output: boolean): HistoryItem[] {
+    const regexp = globToRegExp(pattern || "*");
+    let entries = this.load().filter((entry) => regexp.test(entry.input));
+    if (unique) {
+      const seen = new Set<string>();
+      entries = entries
+        .reverse()
+        .filter((entry) => !seen.has(entry.input) && seen.add(entry.input))
+        .reverse();
+    }
+    return this.toItems(n > 0 ? entries.slice(-n) : entries, output);
+  }
+}
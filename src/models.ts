@@ -5,16 +5,25 @@
 // - @built-in-ai/web-llm gives you the provider function `webLLM(...)`.
 // - @mlc-ai/web-llm exposes `prebuiltAppConfig.model_list`, which is the
 //   authoritative list of built-in models (see WebLLM docs).
+// - Self-hosted MLC builds from the customModels setting are appended to
+//   that list; WEBLLM_MODELS and MODEL_CATALOG are updated in place so that
+//   importers always see the current models.
 
-import { prebuiltAppConfig } from "@mlc-ai/web-llm";
+import { prebuiltAppConfig, functionCallingModelIds, type AppConfig, type ModelRecord } from "@mlc-ai/web-llm";
+
+// Models registered through the customModels setting
+let customModelRecords: ModelRecord[] = [];
+let customModelErrors: string[] = [];
 
 // All available model IDs from WebLLM (runtime list)
 export const WEBLLM_MODELS: string[] = prebuiltAppConfig.model_list.map(
   (record: any) => record.model_id,
 );
 
+const PREBUILT_MODEL_IDS = new Set(WEBLLM_MODELS);
+
 // Preferred defaults in order of choice
-const PREFERRED_DEFAULTS = [
+export const PREFERRED_DEFAULTS = [
   "SmolLM2-360M-Instruct-q4f16_1-MLC",
   "Llama-3.2-3B-Instruct-q4f16_1-MLC",
   "Llama-3.1-8B-Instruct-q4f32_1-MLC",
@@ -27,7 +36,285 @@ export const DEFAULT_WEBLLM_MODEL: string =
   PREFERRED_DEFAULTS.find((m) => WEBLLM_MODELS.includes(m)) ??
   WEBLLM_MODELS[0];
 
+// Default model setting that picks a preferred model fitting the GPU (see gpu.ts)
+export const AUTO_MODEL = "auto";
+
 // Validation helper: check if a string is one of the known model IDs
 export function isValidWebLLMModel(id: string): boolean {
   return WEBLLM_MODELS.includes(id);
 }
+
+// App config for WebLLM engines: the prebuilt models plus custom models
+export function getWebLLMAppConfig(): AppConfig {
+  return { ...prebuiltAppConfig, model_list: [...prebuiltAppConfig.model_list, ...customModelRecords] };
+}
+
+// Look up the full WebLLM model record (weights, VRAM, overrides, ...)
+export function getWebLLMModelRecord(id: string): ModelRecord | undefined {
+  return getWebLLMAppConfig().model_list.find((record: ModelRecord) => record.model_id === id);
+}
+
+// WebLLM only accepts tools for the models it has a function calling format for
+export function isFunctionCallingWebLLMModel(id: string): boolean {
+  return functionCallingModelIds.includes(id);
+}
+
+export function isCustomWebLLMModel(id: string): boolean {
+  return customModelRecords.some((record) => record.model_id === id);
+}
+
+// Model family, taken from the leading name of the ID, e.g. "Llama" or "Qwen"
+export function getModelFamily(id: string): string {
+  return id.match(/^[A-Za-z]+/)?.[0] ?? id;
+}
+
+// Quantization scheme embedded in the ID, e.g. "q4f16_1"
+export function getModelQuantization(id: string): string | undefined {
+  return id.match(/-(q\d+f\d+(?:_\d+)?)-/)?.[1];
+}
+
+const MODEL_TYPES = ["LLM", "embedding", "VLM"] as const;
+
+export type ModelType = (typeof MODEL_TYPES)[number];
+
+// Parameter counts (billions) of models whose ID doesn't include one
+const KNOWN_PARAMETERS: [RegExp, number][] = [
+  [/^Phi-3(\.5)?-mini/, 3.8],
+  [/^Phi-3\.5-vision/, 4.2],
+  [/^phi-2/, 2.7],
+  [/^phi-1_5/, 1.3],
+];
+
+// Parameter count in billions, e.g. 3 for "Llama-3.2-3B-..." or 0.36 for "...-360M-..."
+export function getModelParameters(id: string): number | undefined {
+  const match = id.match(/-(\d+(?:[._]\d+)?)([BbMm])(?=[-_]|$)/);
+  if (match) {
+    const count = parseFloat(match[1].replace("_", "."));
+    return /m/i.test(match[2]) ? count / 1000 : count;
+  }
+  return KNOWN_PARAMETERS.find(([pattern]) => pattern.test(id))?.[1];
+}
+
+/**
+ * Catalog entry for a WebLLM model, derived from its model record.
+ */
+export interface ModelInfo {
+  id: string;
+  family: string;
+  type: ModelType;
+  /** Parameter count in billions */
+  parameters?: number;
+  quantization?: string;
+  vramMB?: number;
+  /** Context window in tokens, if the record overrides the model default */
+  contextWindow?: number;
+  lowResource: boolean;
+  /** Registered through the customModels setting */
+  custom: boolean;
+}
+
+function toModelInfo(record: ModelRecord): ModelInfo {
+  return {
+    id: record.model_id,
+    family: getModelFamily(record.model_id),
+    type: MODEL_TYPES[record.model_type ?? 0] ?? "LLM",
+    parameters: getModelParameters(record.model_id),
+    quantization: getModelQuantization(record.model_id),
+    vramMB: record.vram_required_MB,
+    contextWindow: record.overrides?.context_window_size,
+    lowResource: record.low_resource_required ?? false,
+    custom: !PREBUILT_MODEL_IDS.has(record.model_id),
+  };
+}
+
+// Catalog of all WebLLM models, in upstream order, then custom models
+export const MODEL_CATALOG: ModelInfo[] = prebuiltAppConfig.model_list.map(toModelInfo);
+
+function isHttpUrl(value: unknown): boolean {
+  if (typeof value !== "string") {
+    return false;
+  }
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check one customModels entry. Returns the problems found, if any.
+ */
+function checkCustomModel(entry: any, seen: Set<string>): string[] {
+  if (typeof entry !== "object" || entry === null || Array.isArray(entry)) {
+    return ["expected an object with model_id, model and model_lib"];
+  }
+  const problems: string[] = [];
+  const id = entry.model_id;
+  if (typeof id !== "string" || id.trim() === "") {
+    problems.push("model_id is required");
+  } else if (/[\s:]/.test(id)) {
+    problems.push(`model_id must not contain spaces or ":" (got "${id}")`);
+  } else if (PREBUILT_MODEL_IDS.has(id)) {
+    problems.push(`model_id ${id} is already a prebuilt WebLLM model`);
+  } else if (seen.has(id)) {
+    problems.push(`model_id ${id} is defined more than once`);
+  }
+  if (!isHttpUrl(entry.model)) {
+    problems.push(`model must be the http(s) URL of the weights, e.g. https://example.com/models/my-model/ (got ${JSON.stringify(entry.model)})`);
+  }
+  if (!isHttpUrl(entry.model_lib) || !new URL(entry.model_lib).pathname.endsWith(".wasm")) {
+    problems.push(`model_lib must be the http(s) URL of a compiled .wasm model library (got ${JSON.stringify(entry.model_lib)})`);
+  }
+  const vram = entry.vram_required_MB;
+  if (vram !== undefined && (typeof vram !== "number" || !Number.isFinite(vram) || vram <= 0)) {
+    problems.push(`vram_required_MB must be a positive number (got ${JSON.stringify(vram)})`);
+  }
+  const lowResource = entry.low_resource_required;
+  if (lowResource !== undefined && typeof lowResource !== "boolean") {
+    problems.push(`low_resource_required must be true or false`);
+  }
+  const overrides = entry.overrides;
+  if (overrides !== undefined && (typeof overrides !== "object" || overrides === null || Array.isArray(overrides))) {
+    problems.push(`overrides must be an object of WebLLM chat options, e.g. {"context_window_size": 4096}`);
+  }
+  return problems;
+}
+
+/**
+ * Validate the customModels setting. Valid entries become model records;
+ * each invalid entry yields one error message naming the entry.
+ */
+export function validateCustomModels(raw: unknown): { records: ModelRecord[]; errors: string[] } {
+  const entries = Array.isArray(raw) ? raw : raw === undefined || raw === null ? [] : [raw];
+  const records: ModelRecord[] = [];
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  entries.forEach((entry, index) => {
+    const problems = checkCustomModel(entry, seen);
+    const label = typeof entry?.model_id === "string" && entry.model_id ? ` (${entry.model_id})` : "";
+    if (problems.length > 0) {
+      errors.push(`customModels[${index}]${label}: ${problems.join("; ")}`);
+      return;
+    }
+    seen.add(entry.model_id);
+    records.push({
+      model_id: entry.model_id,
+      model: entry.model,
+      model_lib: entry.model_lib,
+      ...(entry.vram_required_MB !== undefined && { vram_required_MB: entry.vram_required_MB }),
+      ...(entry.low_resource_required !== undefined && { low_resource_required: entry.low_resource_required }),
+      ...(entry.overrides !== undefined && { overrides: entry.overrides }),
+    });
+  });
+  return { records, errors };
+}
+
+/**
+ * Replace the custom models, e.g. after the settings changed. `errors` are
+ * the validation errors to report in %chat list.
+ */
+export function setCustomModels(records: ModelRecord[], errors: string[] = []): void {
+  customModelRecords = records;
+  customModelErrors = errors;
+  const all = getWebLLMAppConfig().model_list;
+  WEBLLM_MODELS.splice(0, WEBLLM_MODELS.length, ...all.map((record: ModelRecord) => record.model_id));
+  MODEL_CATALOG.splice(0, MODEL_CATALOG.length, ...all.map(toModelInfo));
+}
+
+export function getCustomModelErrors(): string[] {
+  return customModelErrors;
+}
+
+export function getModelInfo(id: string): ModelInfo | undefined {
+  return MODEL_CATALOG.find((info) => info.id === id);
+}
+
+export interface ModelFilter {
+  /** Case-insensitive family name, e.g. "llama" */
+  family?: string;
+  maxVramMB?: number;
+  lowResource?: boolean;
+  /** Case-insensitive substring of the model ID */
+  text?: string;
+}
+
+export const MODEL_SORT_KEYS = ["name", "size", "vram", "context"] as const;
+
+export type ModelSortKey = (typeof MODEL_SORT_KEYS)[number];
+
+export function filterModels(models: ModelInfo[], filter: ModelFilter): ModelInfo[] {
+  const family = filter.family?.toLowerCase();
+  const text = filter.text?.toLowerCase();
+  return models.filter(
+    (info) =>
+      (!family || info.family.toLowerCase() === family) &&
+      (filter.maxVramMB === undefined || (info.vramMB !== undefined && info.vramMB <= filter.maxVramMB)) &&
+      (!filter.lowResource || info.lowResource) &&
+      (!text || info.id.toLowerCase().includes(text))
+  );
+}
+
+// Sort ascending; models missing the sort value go last
+export function sortModels(models: ModelInfo[], key: ModelSortKey): ModelInfo[] {
+  const value = (info: ModelInfo): number | undefined =>
+    key === "size" ? info.parameters : key === "vram" ? info.vramMB : key === "context" ? info.contextWindow : undefined;
+  return [...models].sort((a, b) => {
+    if (key !== "name") {
+      const va = value(a) ?? Infinity;
+      const vb = value(b) ?? Infinity;
+      if (va !== vb) {
+        return va - vb;
+      }
+    }
+    return a.id.localeCompare(b.id);
+  });
+}
+
+// Families in catalog order
+export function listModelFamilies(): string[] {
+  return [...new Set(MODEL_CATALOG.map((info) => info.family))];
+}
+
+export function formatParameters(billions: number): string {
+  return billions < 1 ? `${Math.round(billions * 1000)}M` : `${billions}B`;
+}
+
+// One-line summary for lists and pickers, e.g. "3B · q4f16_1 · 2264 MB VRAM"
+export function summarizeModel(info: ModelInfo): string {
+  const parts = [
+    info.parameters !== undefined ? formatParameters(info.parameters) : null,
+    info.quantization ?? null,
+    info.vramMB !== undefined ? `${Math.round(info.vramMB)} MB VRAM` : null,
+    info.contextWindow !== undefined ? `${info.contextWindow} ctx` : null,
+    info.lowResource ? "low-resource" : null,
+    info.type !== "LLM" ? info.type : null,
+    info.custom ? "custom" : null,
+  ];
+  return parts.filter(Boolean).join(" · ");
+}
+
+// Human-readable summary of a WebLLM model, or null for unknown IDs
+export function describeWebLLMModel(id: string): string | null {
+  const record = getWebLLMModelRecord(id);
+  const info = getModelInfo(id);
+  if (!record || !info) {
+    return null;
+  }
+  const lines = [
+    `Source:         ${info.custom ? "customModels setting" : "prebuilt"}`,
+    `Family:         ${info.family}`,
+    `Type:           ${info.type}`,
+    `Parameters:     ${info.parameters !== undefined ? formatParameters(info.parameters) : "unknown"}`,
+    `Quantization:   ${info.quantization ?? "unknown"}`,
+    `VRAM required:  ${info.vramMB !== undefined ? `${Math.round(info.vramMB)} MB` : "unknown"}`,
+    `Low-resource:   ${info.lowResource ? "yes" : "no"}`,
+    `Context window: ${info.contextWindow !== undefined ? `${info.contextWindow} tokens` : "model default"}`,
+    `Weights:        ${record.model}`,
+    `Model library:  ${record.model_lib}`,
+  ];
+  if (record.required_features?.length) {
+    lines.push(`GPU features:   ${record.required_features.join(", ")}`);
+  }
+  return lines.join("\n");
+}
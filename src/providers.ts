@@ -0,0 +1,286 @@
+// src/providers.ts
+// Model providers the chat kernel can talk to.
+//
+// Every provider hands out AI SDK language models, so the kernel drives all
+// of them through the same `streamText` call. Models are selected with
+// prefixed IDs such as "webllm:Llama-3.2-3B-Instruct-q4f16_1-MLC",
+// "openai-compat:llama3.2:3b" or "fake:echo" (the offline test model, see
+// fakeModel.ts). IDs without a known prefix are treated as WebLLM model IDs,
+// so existing settings keep working.
+
+import type { LanguageModel } from "ai";
+import { webLLM } from "@built-in-ai/web-llm";
+import { builtInAI, doesBrowserSupportBuiltInAI } from "@built-in-ai/core";
+import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
+import {
+  type ModelInfo,
+  WEBLLM_MODELS,
+  isValidWebLLMModel,
+  describeWebLLMModel,
+  getModelInfo,
+  getWebLLMAppConfig,
+  isFunctionCallingWebLLMModel,
+  AUTO_MODEL,
+} from "./models.js";
+import { fakeProvider } from "./fakeModel.js";
+
+export type ChatModel = Exclude<LanguageModel, string>;
+
+export type Availability = "unavailable" | "downloadable" | "downloading" | "available";
+
+/**
+ * Model loading progress, in the shape WebLLM reports it.
+ */
+export interface ProgressReport {
+  /** Fraction between 0 and 1. */
+  progress: number;
+  text: string;
+}
+
+/**
+ * A model created by a provider, together with its lifecycle hooks.
+ */
+export interface ProviderModel {
+  readonly model: ChatModel;
+  /** Check whether the model can be used in this browser right now. */
+  availability(): Promise<Availability>;
+  /** Download and/or load the model so that generation can start. */
+  prepare(onProgress: (report: ProgressReport) => void): Promise<void>;
+  /** Free the resources held by a loaded model, e.g. GPU memory. */
+  dispose?(): Promise<void>;
+}
+
+export interface ModelProvider {
+  /** Prefix used in model IDs, e.g. "webllm" */
+  readonly id: string;
+  readonly label: string;
+  /** Error message shown when availability() reports "unavailable" */
+  readonly unavailableMessage: string;
+  /** Known model names, without the provider prefix */
+  listModels(): string[];
+  isValidModel(name: string): boolean;
+  createModel(name: string, onProgress: (report: ProgressReport) => void): ProviderModel;
+  /** Model metadata for %chat info and inspection, or null if unknown */
+  describeModel?(name: string): string | null;
+  /** Whether the model can call tools (%%tool); false if not implemented */
+  supportsTools?(name: string): boolean;
+}
+
+const webllmProvider: ModelProvider = {
+  id: "webllm",
+  label: "WebLLM (WebGPU, in-browser)",
+  unavailableMessage: "Browser does not support WebLLM / WebGPU. Run %chat doctor for details.",
+  listModels: () => WEBLLM_MODELS,
+  isValidModel: isValidWebLLMModel,
+  describeModel: describeWebLLMModel,
+  supportsTools: isFunctionCallingWebLLMModel,
+  createModel(name, onProgress) {
+    // The provider hands only engineConfig to MLCEngine, so the app config
+    // with the custom models goes there
+    const model = webLLM(name, {
+      initProgressCallback: onProgress,
+      engineConfig: { appConfig: getWebLLMAppConfig() },
+    });
+    let engine: Awaited<ReturnType<typeof model.createSessionWithProgress>> | null = null;
+    return {
+      model,
+      availability: () => model.availability(),
+      prepare: async (progress) => {
+        engine = await model.createSessionWithProgress(progress);
+      },
+      dispose: async () => {
+        await engine?.unload();
+        engine = null;
+      },
+    };
+  },
+};
+
+const BUILTIN_MODELS = ["text"];
+
+const builtinProvider: ModelProvider = {
+  id: "builtin",
+  label: "Browser built-in AI (Prompt API)",
+  unavailableMessage: "Browser does not support the built-in AI Prompt API.",
+  listModels: () => BUILTIN_MODELS,
+  isValidModel: (name) => BUILTIN_MODELS.includes(name),
+  createModel() {
+    const model = builtInAI("text");
+    return {
+      model,
+      availability: async () => (doesBrowserSupportBuiltInAI() ? model.availability() : "unavailable"),
+      prepare: async (onProgress) => {
+        await model.createSessionWithProgress((progress) =>
+          onProgress({ progress, text: "Downloading built-in model" })
+        );
+      },
+    };
+  },
+};
+
+/**
+ * Connection settings for the OpenAI-compatible provider.
+ */
+export interface OpenAICompatibleSettings {
+  /** e.g. "http://localhost:11434/v1" for Ollama */
+  baseURL: string;
+  apiKey?: string;
+  /** Model names offered in pickers and %chat list */
+  models: string[];
+}
+
+let openaiCompatibleSettings: OpenAICompatibleSettings = { baseURL: "", models: [] };
+
+/**
+ * Update the OpenAI-compatible connection settings. Models created
+ * afterwards use the new endpoint.
+ */
+export function setOpenAICompatibleSettings(settings: OpenAICompatibleSettings): void {
+  openaiCompatibleSettings = settings;
+}
+
+const openaiCompatibleProvider: ModelProvider = {
+  id: "openai-compat",
+  label: "OpenAI-compatible HTTP endpoint",
+  get unavailableMessage() {
+    return openaiCompatibleSettings.baseURL
+      ? `OpenAI-compatible endpoint ${openaiCompatibleSettings.baseURL} is not reachable.`
+      : "No OpenAI-compatible endpoint configured. Set its base URL in the WebLLM Chat Kernel settings.";
+  },
+  listModels: () => openaiCompatibleSettings.models,
+  // The server decides which models exist, and which of them can call tools
+  isValidModel: (name) => name.length > 0,
+  supportsTools: () => true,
+  createModel(name) {
+    const { baseURL, apiKey } = openaiCompatibleSettings;
+    const provider = createOpenAICompatible({
+      name: "openai-compat",
+      baseURL,
+      apiKey: apiKey || undefined,
+      includeUsage: true,
+    });
+    return {
+      model: provider.chatModel(name),
+      availability: async () => {
+        if (!baseURL) {
+          return "unavailable";
+        }
+        try {
+          const response = await fetch(`${baseURL.replace(/\/+$/, "")}/models`, {
+            headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+          });
+          return response.ok ? "available" : "unavailable";
+        } catch {
+          return "unavailable";
+        }
+      },
+      prepare: async () => {},
+    };
+  },
+};
+
+const providers = new Map<string, ModelProvider>();
+
+export const DEFAULT_PROVIDER_ID = "webllm";
+
+/**
+ * Register a model provider. Its id becomes a model ID prefix.
+ */
+export function registerProvider(provider: ModelProvider): void {
+  providers.set(provider.id, provider);
+}
+
+export function listProviders(): ModelProvider[] {
+  return [...providers.values()];
+}
+
+registerProvider(webllmProvider);
+registerProvider(builtinProvider);
+registerProvider(openaiCompatibleProvider);
+registerProvider(fakeProvider);
+
+/**
+ * Split a model ID into its provider and the provider's model name.
+ * IDs without a registered prefix belong to the default (WebLLM) provider.
+ */
+export function parseModelId(id: string): { provider: ModelProvider; name: string } {
+  const sep = id.indexOf(":");
+  if (sep > 0) {
+    const provider = providers.get(id.slice(0, sep));
+    if (provider) {
+      return { provider, name: id.slice(sep + 1) };
+    }
+  }
+  return { provider: providers.get(DEFAULT_PROVIDER_ID)!, name: id };
+}
+
+/**
+ * Build the canonical, prefixed model ID.
+ */
+export function formatModelId(providerId: string, name: string): string {
+  return `${providerId}:${name}`;
+}
+
+/**
+ * Normalize a model ID to its prefixed form, e.g. for display.
+ */
+export function canonicalModelId(id: string): string {
+  const { provider, name } = parseModelId(id);
+  return formatModelId(provider.id, name);
+}
+
+/**
+ * Describe a model for %chat info and Shift+Tab inspection, or return null
+ * if the ID is not a valid model.
+ */
+export function describeModelId(id: string): string | null {
+  const { provider, name } = parseModelId(id);
+  if (!provider.isValidModel(name)) {
+    return null;
+  }
+  const details = provider.describeModel?.(name) ?? "No further metadata available.";
+  return `Model:          ${formatModelId(provider.id, name)}\nProvider:       ${provider.label}\n${details}`;
+}
+
+export function isValidModelId(id: string): boolean {
+  const { provider, name } = parseModelId(id);
+  return provider.isValidModel(name);
+}
+
+/**
+ * Whether a model can be offered tools (function calling).
+ */
+export function modelSupportsTools(id: string): boolean {
+  const { provider, name } = parseModelId(id);
+  return provider.supportsTools?.(name) ?? false;
+}
+
+/**
+ * All known model IDs across providers, prefixed.
+ */
+export function listModelIds(): string[] {
+  return listProviders().flatMap((provider) =>
+    provider.listModels().map((name) => formatModelId(provider.id, name))
+  );
+}
+
+/**
+ * Catalog data for a model ID; only WebLLM models have any.
+ */
+export function getModelIdInfo(id: string): ModelInfo | undefined {
+  const { provider, name } = parseModelId(id);
+  return provider.id === DEFAULT_PROVIDER_ID ? getModelInfo(name) : undefined;
+}
+
+/**
+ * Group model IDs for pickers: WebLLM models by family, others by provider.
+ * Groups keep the order in which they first appear.
+ */
+export function groupModelIds(ids: string[]): [string, string[]][] {
+  const groups = new Map<string, string[]>();
+  for (const id of ids) {
+    const group = id === AUTO_MODEL ? "Automatic" : getModelIdInfo(id)?.family ?? parseModelId(id).provider.label;
+    groups.set(group, [...(groups.get(group) ?? []), id]);
+  }
+  return [...groups];
+}
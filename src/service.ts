@@ -0,0 +1,325 @@
+// src/service.ts
+// A chat service shared by kernels and other JupyterLab plugins, so that a
+// model is downloaded and loaded into the GPU once per page rather than once
+// per consumer.
+//
+// Models live in an engine pool keyed by canonical model ID. Each user
+// acquires a reference and releases it when done. Models without references
+// stay loaded, so that per-cell models and service calls do not reload the
+// engine every time; the least recently used of them are unloaded once there
+// are more than the pool keeps idle.
+
+import { streamText, type ModelMessage } from "ai";
+import {
+  type ModelProvider,
+  type ProviderModel,
+  type ProgressReport,
+  parseModelId,
+  canonicalModelId,
+  isValidModelId,
+} from "./providers.js";
+import { type GenerationConfig, toCallSettings } from "./generation.js";
+
+/**
+ * A reference to a pooled model. Call release() once it is no longer used.
+ */
+export interface PooledModel {
+  /** Canonical model ID */
+  readonly id: string;
+  readonly provider: ModelProvider;
+  readonly model: ProviderModel;
+  /** Check availability and download/load the model if needed. */
+  prepare(): Promise<void>;
+  /** Listen to download/load progress; returns a function that stops listening. */
+  onProgress(listener: (report: ProgressReport) => void): () => void;
+  /** Whether prepare() has completed */
+  isLoaded(): boolean;
+  release(): void;
+}
+
+export interface EngineStatus {
+  model: string;
+  /** Number of unreleased references */
+  refs: number;
+  loaded: boolean;
+  progress: ProgressReport | null;
+}
+
+interface PoolEntry {
+  provider: ModelProvider;
+  model: ProviderModel;
+  refs: number;
+  loaded: boolean;
+  preparing: Promise<void> | null;
+  progress: ProgressReport | null;
+  listeners: Set<(report: ProgressReport) => void>;
+}
+
+function notify(entry: PoolEntry, report: ProgressReport, onAnyProgress: (report: ProgressReport) => void): void {
+  entry.progress = report;
+  onAnyProgress(report);
+  entry.listeners.forEach((listener) => listener(report));
+}
+
+function dispose(id: string, entry: PoolEntry): void {
+  entry.model.dispose?.().catch((e) => {
+    console.warn("[webllm-chat-kernel] Could not unload model:", id, e);
+  });
+}
+
+export class EnginePool {
+  private entries = new Map<string, PoolEntry>();
+  // IDs of the loaded models without references, least recently used first
+  private idle: string[] = [];
+  private onAnyProgress: (report: ProgressReport) => void;
+  private maxIdle: number;
+
+  /**
+   * @param onAnyProgress - Called with the progress reports of every model
+   * @param maxIdle - Number of unreferenced models kept loaded
+   */
+  constructor(onAnyProgress: (report: ProgressReport) => void = () => {}, maxIdle = 1) {
+    this.onAnyProgress = onAnyProgress;
+    this.maxIdle = maxIdle;
+  }
+
+  /**
+   * Get a reference to a model, creating it if it is not in the pool.
+   * Throws for unknown model IDs.
+   */
+  acquire(modelId: string): PooledModel {
+    if (!isValidModelId(modelId)) {
+      throw new Error(`Invalid model: ${modelId}. Use %chat list to see available models.`);
+    }
+    const id = canonicalModelId(modelId);
+    let entry = this.entries.get(id);
+    if (!entry) {
+      const { provider, name } = parseModelId(modelId);
+      // Progress is only reported once the entry exists
+      let created: PoolEntry;
+      const model = provider.createModel(name, (report) => notify(created, report, this.onAnyProgress));
+      created = {
+        provider,
+        model,
+        refs: 0,
+        loaded: false,
+        preparing: null,
+        progress: null,
+        listeners: new Set(),
+      };
+      entry = created;
+      this.entries.set(id, entry);
+    }
+    this.idle = this.idle.filter((idleId) => idleId !== id);
+    entry.refs++;
+
+    const current = entry;
+    let released = false;
+    return {
+      id,
+      provider: current.provider,
+      model: current.model,
+      prepare: () => this.prepare(id, current),
+      onProgress: (listener) => {
+        current.listeners.add(listener);
+        return () => current.listeners.delete(listener);
+      },
+      isLoaded: () => current.loaded,
+      release: () => {
+        if (released) {
+          return;
+        }
+        released = true;
+        this.release(id, current);
+      },
+    };
+  }
+
+  private async prepare(id: string, entry: PoolEntry): Promise<void> {
+    if (entry.loaded) {
+      return;
+    }
+    // Several users may ask for the same model while it is loading
+    if (!entry.preparing) {
+      entry.preparing = (async () => {
+        const availability = await entry.model.availability();
+        if (availability === "unavailable") {
+          throw new Error(entry.provider.unavailableMessage);
+        }
+        if (availability === "downloadable" || availability === "downloading") {
+          await entry.model.prepare((report) => notify(entry, report, this.onAnyProgress));
+        }
+        entry.loaded = true;
+      })().finally(() => {
+        entry.preparing = null;
+        // Unloaded while loading: the engine may have loaded after dispose()
+        if (this.entries.get(id) !== entry) {
+          dispose(id, entry);
+        }
+      });
+    }
+    await entry.preparing;
+  }
+
+  private release(id: string, entry: PoolEntry): void {
+    entry.refs--;
+    if (entry.refs > 0 || this.entries.get(id) !== entry) {
+      return;
+    }
+    // Keep the model for the next user, unless it never got loaded
+    if (entry.loaded || entry.preparing) {
+      this.idle.push(id);
+    } else {
+      this.unload(id);
+    }
+    while (this.idle.length > this.maxIdle) {
+      this.unload(this.idle.shift()!);
+    }
+  }
+
+  private unload(id: string): void {
+    const entry = this.entries.get(id);
+    if (!entry) {
+      return;
+    }
+    this.entries.delete(id);
+    console.log("[webllm-chat-kernel] Unloading unused model:", id);
+    dispose(id, entry);
+  }
+
+  /**
+   * Unload the idle models of a provider, e.g. after its settings changed,
+   * so that the next user creates them with the new settings.
+   */
+  flushIdle(providerId: string): void {
+    for (const id of this.idle.filter((idleId) => this.entries.get(idleId)?.provider.id === providerId)) {
+      this.idle = this.idle.filter((idleId) => idleId !== id);
+      this.unload(id);
+    }
+  }
+
+  status(): EngineStatus[] {
+    return [...this.entries].map(([model, entry]) => ({
+      model,
+      refs: entry.refs,
+      loaded: entry.loaded,
+      progress: entry.progress,
+    }));
+  }
+}
+
+export interface ChatServiceOptions {
+  /** Model ID; defaults to the service's model */
+  model?: string;
+  system?: string;
+  /** Earlier turns of the conversation */
+  messages?: ModelMessage[];
+  /** Generation parameters layered over the settings defaults */
+  generation?: GenerationConfig;
+  abortSignal?: AbortSignal;
+}
+
+export interface ChatServiceStatus {
+  /** Model used when a request does not name one */
+  model: string;
+  /** Models currently in the engine pool */
+  engines: EngineStatus[];
+}
+
+/**
+ * The chat service provided to other plugins under the
+ * `@wiki3-ai/webllm-chat-kernel:IWebLLMChatService` token.
+ */
+export interface IWebLLMChatService {
+  /** Generate a complete reply. */
+  generate(prompt: string, options?: ChatServiceOptions): Promise<string>;
+  /** Stream a reply chunk by chunk. */
+  stream(prompt: string, options?: ChatServiceOptions): AsyncIterable<string>;
+  getStatus(): ChatServiceStatus;
+  /** Set the model used when a request does not name one. */
+  setModel(modelId: string): void;
+  /**
+   * Hold a model loaded (e.g. while a panel using it is open). The model
+   * stays in the pool until the returned reference is released.
+   */
+  acquire(modelId?: string): PooledModel;
+}
+
+export class WebLLMChatService implements IWebLLMChatService {
+  private model: string | null = null;
+
+  /**
+   * @param pool - Engine pool shared with the kernels
+   * @param defaults - Settings defaults for the model and generation
+   * parameters. resolveModel() may wait for what model() cannot know yet,
+   * e.g. the GPU for the "auto" default model.
+   */
+  constructor(
+    private pool: EnginePool,
+    private defaults: { model(): string; resolveModel?(): Promise<string>; generation(): GenerationConfig }
+  ) {}
+
+  private currentModel(): string {
+    return this.model ?? canonicalModelId(this.defaults.model());
+  }
+
+  private async resolveModel(): Promise<string> {
+    if (this.model !== null || !this.defaults.resolveModel) {
+      return this.currentModel();
+    }
+    return canonicalModelId(await this.defaults.resolveModel());
+  }
+
+  async *stream(prompt: string, options: ChatServiceOptions = {}): AsyncIterable<string> {
+    const handle = this.pool.acquire(options.model ?? (await this.resolveModel()));
+    try {
+      await handle.prepare();
+      // streamText reports model errors through onError, not by throwing
+      let streamError: unknown = null;
+      const result = streamText({
+        model: handle.model.model,
+        system: options.system || undefined,
+        messages: [...(options.messages ?? []), { role: "user", content: prompt }],
+        ...toCallSettings({ ...this.defaults.generation(), ...options.generation }),
+        abortSignal: options.abortSignal,
+        onError: ({ error }) => {
+          streamError = error;
+        },
+      });
+      for await (const chunk of result.textStream) {
+        yield chunk;
+      }
+      if (streamError) {
+        throw streamError;
+      }
+      if (options.abortSignal?.aborted) {
+        throw new Error("Generation aborted");
+      }
+    } finally {
+      handle.release();
+    }
+  }
+
+  async generate(prompt: string, options: ChatServiceOptions = {}): Promise<string> {
+    let reply = "";
+    for await (const chunk of this.stream(prompt, options)) {
+      reply += chunk;
+    }
+    return reply;
+  }
+
+  getStatus(): ChatServiceStatus {
+    return { model: this.currentModel(), engines: this.pool.status() };
+  }
+
+  setModel(modelId: string): void {
+    if (!isValidModelId(modelId)) {
+      throw new Error(`Invalid model: ${modelId}`);
+    }
+    this.model = canonicalModelId(modelId);
+  }
+
+  acquire(modelId?: string): PooledModel {
+    return this.pool.acquire(modelId ?? this.currentModel());
+  }
+}
@@ -0,0 +1,159 @@
+// src/stats.ts
+// Token usage and speed of replies, for execute_result metadata, the reply
+// footer and %chat stats.
+
+import type { LanguageModelUsage } from "ai";
+import { escapeHtml } from "./display.js";
+
+/**
+ * Statistics of one reply. Token counts are missing when the provider does
+ * not report usage.
+ */
+export interface ReplyStats {
+  /** Canonical model ID */
+  model: string;
+  promptTokens?: number;
+  completionTokens?: number;
+  /** Time from the request to the first text, for streamed replies */
+  timeToFirstTokenMs?: number;
+  /** Time from the request to the end of the reply (excluding model loading) */
+  durationMs: number;
+  /** Completion tokens per second after the first token */
+  tokensPerSecond?: number;
+}
+
+/**
+ * Build reply statistics from the usage and timestamps (performance.now())
+ * of a generation.
+ */
+export function measureReply(
+  model: string,
+  usage: LanguageModelUsage | undefined,
+  start: number,
+  firstToken: number | null,
+  end: number
+): ReplyStats {
+  const completionTokens = usage?.outputTokens;
+  // Decoding speed: the first token's latency is mostly prompt processing
+  const decodeSeconds = (end - (firstToken ?? start)) / 1000;
+  return {
+    model,
+    promptTokens: usage?.inputTokens,
+    completionTokens,
+    timeToFirstTokenMs: firstToken !== null ? Math.round(firstToken - start) : undefined,
+    durationMs: Math.round(end - start),
+    tokensPerSecond:
+      completionTokens !== undefined && decodeSeconds > 0 ? Math.round((completionTokens / decodeSeconds) * 10) / 10 : undefined,
+  };
+}
+
+/**
+ * Metadata of a reply's execute_result, under the "webllm_chat" key.
+ */
+export function statsMetadata(stats: ReplyStats): Record<string, unknown> {
+  return {
+    webllm_chat: {
+      model: stats.model,
+      prompt_tokens: stats.promptTokens ?? null,
+      completion_tokens: stats.completionTokens ?? null,
+      time_to_first_token_ms: stats.timeToFirstTokenMs ?? null,
+      duration_ms: stats.durationMs,
+      tokens_per_second: stats.tokensPerSecond ?? null,
+    },
+  };
+}
+
+function formatSeconds(ms: number): string {
+  return `${(ms / 1000).toFixed(2)} s`;
+}
+
+/**
+ * One-line summary shown under a reply, e.g.
+ * "webllm:Llama-3.2-3B-Instruct-q4f16_1-MLC · 42 → 128 tokens · TTFT 0.35 s · 24.3 tok/s"
+ */
+export function formatStatsFooter(stats: ReplyStats): { "text/html": string; "text/plain": string } {
+  const parts = [stats.model];
+  if (stats.promptTokens !== undefined || stats.completionTokens !== undefined) {
+    parts.push(`${stats.promptTokens ?? "?"} → ${stats.completionTokens ?? "?"} tokens`);
+  }
+  parts.push(
+    stats.timeToFirstTokenMs !== undefined ? `TTFT ${formatSeconds(stats.timeToFirstTokenMs)}` : formatSeconds(stats.durationMs)
+  );
+  if (stats.tokensPerSecond !== undefined) {
+    parts.push(`${stats.tokensPerSecond} tok/s`);
+  }
+  const text = parts.join(" · ");
+  return {
+    "text/html": `<div style="font-size: 0.85em; color: var(--jp-ui-font-color2);">${escapeHtml(text)}</div>`,
+    "text/plain": text,
+  };
+}
+
+interface ModelTotals {
+  replies: number;
+  promptTokens: number;
+  completionTokens: number;
+  /** Replies with a time to first token */
+  timed: number;
+  timeToFirstTokenMs: number;
+  /** Seconds spent decoding the replies with a completion token count */
+  decodeSeconds: number;
+  decodedTokens: number;
+}
+
+/**
+ * Reply statistics of a kernel session, summarized per model by %chat stats.
+ */
+export class SessionStats {
+  private totals = new Map<string, ModelTotals>();
+
+  record(stats: ReplyStats): void {
+    const totals = this.totals.get(stats.model) ?? {
+      replies: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      timed: 0,
+      timeToFirstTokenMs: 0,
+      decodeSeconds: 0,
+      decodedTokens: 0,
+    };
+    totals.replies++;
+    totals.promptTokens += stats.promptTokens ?? 0;
+    totals.completionTokens += stats.completionTokens ?? 0;
+    if (stats.timeToFirstTokenMs !== undefined) {
+      totals.timed++;
+      totals.timeToFirstTokenMs += stats.timeToFirstTokenMs;
+    }
+    if (stats.tokensPerSecond && stats.completionTokens) {
+      totals.decodedTokens += stats.completionTokens;
+      totals.decodeSeconds += stats.completionTokens / stats.tokensPerSecond;
+    }
+    this.totals.set(stats.model, totals);
+  }
+
+  reset(): void {
+    this.totals.clear();
+  }
+
+  format(): string {
+    if (this.totals.size === 0) {
+      return "No replies yet in this session.";
+    }
+    const rows = [["Model", "Replies", "Prompt tok", "Completion tok", "Avg TTFT", "Avg tok/s"]];
+    for (const [model, totals] of this.totals) {
+      rows.push([
+        model,
+        String(totals.replies),
+        String(totals.promptTokens),
+        String(totals.completionTokens),
+        totals.timed > 0 ? formatSeconds(totals.timeToFirstTokenMs / totals.timed) : "-",
+        totals.decodeSeconds > 0 ? (totals.decodedTokens / totals.decodeSeconds).toFixed(1) : "-",
+      ]);
+    }
+    const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+    const lines = rows.map((row) =>
+      row.map((cell, column) => (column === 0 ? cell.padEnd(widths[column]) : cell.padStart(widths[column]))).join("  ")
+    );
+    return `Session statistics:\n  ${lines.join("\n  ")}`;
+  }
+}
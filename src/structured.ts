@@ -0,0 +1,64 @@
+// src/structured.ts
+// JSON Schema support for %%chat --json: schema parsing, the instruction
+// that tells the model what to produce, and validation of its output.
+//
+// WebLLM's JSON mode only guarantees syntactically valid JSON, so the schema
+// is also described to the model in the system prompt and the parsed result
+// is checked against it here.
+
+import { jsonSchema, type JSONSchema7, type Schema } from "ai";
+import { Ajv } from "ajv";
+
+// Schemas come from users, so tolerate keywords Ajv does not know. Each
+// schema gets its own Ajv instance: Ajv keeps compiled schemas by $id and
+// refuses to compile a second schema with the same $id.
+function createAjv(): Ajv {
+  return new Ajv({ strict: false, allErrors: true });
+}
+
+/**
+ * Parse a JSON Schema given inline or stored in a variable.
+ * Throws an Error with a user-facing message if it is not a valid schema.
+ */
+export function parseSchema(text: string): JSONSchema7 {
+  let schema: unknown;
+  try {
+    schema = JSON.parse(text);
+  } catch (e: any) {
+    throw new Error(`Invalid JSON Schema: ${e.message}\n\nSchema:\n${text}`);
+  }
+  if (typeof schema !== "object" || schema === null || Array.isArray(schema)) {
+    throw new Error(`Invalid JSON Schema: expected an object, got: ${text}`);
+  }
+  try {
+    createAjv().compile(schema);
+  } catch (e: any) {
+    throw new Error(`Invalid JSON Schema: ${e.message}`);
+  }
+  return schema as JSONSchema7;
+}
+
+/**
+ * Wrap a JSON Schema for the AI SDK, validating generated objects with Ajv.
+ */
+export function toValidatedSchema(schema: JSONSchema7): Schema<unknown> {
+  const ajv = createAjv();
+  const validate = ajv.compile(schema);
+  return jsonSchema(schema, {
+    validate: (value) =>
+      validate(value)
+        ? { success: true, value }
+        : { success: false, error: new Error(ajv.errorsText(validate.errors, { dataVar: "output" })) },
+  });
+}
+
+/**
+ * System prompt instruction describing the expected output.
+ */
+export function schemaInstruction(schema: JSONSchema7): string {
+  return (
+    "Respond only with a JSON value that conforms to the following JSON Schema. " +
+    "Do not add any text before or after the JSON.\n\n" +
+    JSON.stringify(schema, null, 2)
+  );
+}
@@ -0,0 +1,74 @@
+// src/templates.ts
+// {{placeholder}} expansion for prompts and saved prompt templates.
+//
+// Placeholders are either variable names set with %chat set, or references
+// to earlier cells of the kernel: {{In[3]}} is the prompt of cell 3 and
+// {{Out[3]}} its reply. Negative indices count back from the latest cell,
+// so {{Out[-1]}} is the previous reply. A backslash escapes the opening
+// braces: \{{name}} is sent as {{name}}.
+
+export interface TemplateContext {
+  variables: Map<string, string>;
+  /** Prompts by execution count */
+  inputs: Map<number, string>;
+  /** Replies by execution count */
+  outputs: Map<number, string>;
+}
+
+// An escaped opening "\{{" or a placeholder
+const PLACEHOLDER = /\\\{\{|\{\{\s*([^{}]*?)\s*\}\}/g;
+const CELL_REFERENCE = /^(In|Out)\[(-?\d+)\]$/;
+
+export const VARIABLE_NAME = /^[A-Za-z_][\w.-]*$/;
+
+function resolveCell(cells: Map<number, string>, index: number): string | undefined {
+  if (index >= 0) {
+    return cells.get(index);
+  }
+  const counts = [...cells.keys()].sort((a, b) => a - b);
+  const count = counts[counts.length + index];
+  return count === undefined ? undefined : cells.get(count);
+}
+
+function resolvePlaceholder(name: string, context: TemplateContext): string | undefined {
+  const cell = name.match(CELL_REFERENCE);
+  if (cell) {
+    const cells = cell[1] === "In" ? context.inputs : context.outputs;
+    return resolveCell(cells, parseInt(cell[2], 10));
+  }
+  return context.variables.get(name);
+}
+
+/**
+ * Check whether text contains any {{placeholder}} or escaped \{{.
+ */
+export function hasPlaceholders(text: string): boolean {
+  return new RegExp(PLACEHOLDER.source).test(text);
+}
+
+/**
+ * Replace every {{placeholder}} in text and unescape \{{. Throws an Error
+ * listing all placeholders that could not be resolved.
+ */
+export function expandTemplate(text: string, context: TemplateContext): string {
+  const unresolved: string[] = [];
+  const expanded = text.replace(PLACEHOLDER, (match, name: string | undefined) => {
+    if (name === undefined) {
+      return "{{";
+    }
+    const value = resolvePlaceholder(name, context);
+    if (value === undefined) {
+      unresolved.push(match);
+      return match;
+    }
+    return value;
+  });
+  if (unresolved.length > 0) {
+    throw new Error(
+      `Unresolved placeholder${unresolved.length === 1 ? "" : "s"}: ${[...new Set(unresolved)].join(", ")}\n\n` +
+        `Use "%chat set name=value" to define variables; {{In[n]}} and {{Out[n]}} refer to earlier cells of this kernel. ` +
+        `Write \\{{ to send {{ as is.`
+    );
+  }
+  return expanded;
+}
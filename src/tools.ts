@@ -0,0 +1,120 @@
+// src/tools.ts
+// Notebook-defined tools for model function calling.
+//
+// A %%tool cell defines one tool: the header names it, the body holds a JSON
+// Schema for its parameters and a JavaScript function, separated by a line
+// containing only `---`. The schema may be left out for tools without
+// parameters.
+//
+//   %%tool get_weather --description "Current weather for a city" --confirm
+//   {"type": "object", "properties": {"city": {"type": "string"}}, "required": ["city"]}
+//   ---
+//   async ({ city }) => `It is sunny in ${city}`
+
+import type { JSONSchema7 } from "ai";
+import { tokenizeArgs, parseFlags } from "./args.js";
+import { parseSchema } from "./structured.js";
+import { escapeHtml } from "./display.js";
+
+export interface NotebookTool {
+  name: string;
+  description: string;
+  parameters: JSONSchema7;
+  /** Ask the user before every call */
+  confirm: boolean;
+  /** Source of the function, shown by %chat tools */
+  source: string;
+  execute: (input: any) => unknown;
+}
+
+export const TOOL_NAME = /^[A-Za-z_][A-Za-z0-9_-]*$/;
+
+const NO_PARAMETERS: JSONSchema7 = { type: "object", properties: {} };
+
+/**
+ * Evaluate the function source of a tool. Throws if it is not a function.
+ */
+function compileFunction(name: string, source: string): (input: any) => unknown {
+  let fn: unknown;
+  try {
+    fn = new Function(`"use strict";\nreturn (${source}\n);`)();
+  } catch (e: any) {
+    throw new Error(`Tool ${name}: ${e.message}`);
+  }
+  if (typeof fn !== "function") {
+    throw new Error(`Tool ${name}: expected a function expression, got ${typeof fn}`);
+  }
+  return fn as (input: any) => unknown;
+}
+
+/**
+ * Parse a %%tool cell. Returns null if the cell does not start with %%tool.
+ * Throws an Error for a missing or invalid name, schema or function.
+ */
+export function parseToolCell(code: string): NotebookTool | null {
+  const match = code.replace(/^\s*\n/, "").match(/^%%tool(?:[ \t]+([^\n]*))?(?:\n([\s\S]*))?$/);
+  if (!match) {
+    return null;
+  }
+
+  const { flags, positionals } = parseFlags(tokenizeArgs(match[1] ?? ""), {
+    description: "string",
+    confirm: "boolean",
+  });
+  if (positionals.length !== 1) {
+    throw new Error(`Usage: %%tool <name> [--description <text>] [--confirm]`);
+  }
+  const name = positionals[0];
+  if (!TOOL_NAME.test(name)) {
+    throw new Error(`Invalid tool name: ${name} (use letters, digits, "_" and "-")`);
+  }
+
+  const body = match[2] ?? "";
+  const separator = body.match(/^---[ \t]*$/m);
+  const schemaText = separator ? body.slice(0, separator.index).trim() : "";
+  const source = (separator ? body.slice(separator.index! + separator[0].length) : body).trim();
+  if (!source) {
+    throw new Error(`Tool ${name} has no function. Put a JavaScript function below the %%tool line.`);
+  }
+
+  return {
+    name,
+    description: (flags["description"] as string | undefined) ?? "",
+    parameters: schemaText ? parseSchema(schemaText) : NO_PARAMETERS,
+    confirm: Boolean(flags["confirm"]),
+    source,
+    execute: compileFunction(name, source),
+  };
+}
+
+function formatValue(value: unknown): string {
+  if (typeof value === "string") {
+    return value;
+  }
+  if (value instanceof Error) {
+    return value.message;
+  }
+  return JSON.stringify(value, null, 2) ?? String(value);
+}
+
+/**
+ * Render a tool call and its result (or error) as a collapsed HTML block,
+ * with a plain text fallback.
+ */
+export function formatToolCall(
+  name: string,
+  input: unknown,
+  result: { output: unknown } | { error: unknown }
+): { "text/html": string; "text/plain": string } {
+  const failed = "error" in result;
+  const output = formatValue(failed ? result.error : result.output);
+  const args = JSON.stringify(input ?? {});
+  const summary = `${failed ? "✗" : "✓"} ${name}(${args.length > 80 ? args.slice(0, 77) + "..." : args})`;
+  return {
+    "text/html":
+      `<details><summary><code>${escapeHtml(summary)}</code></summary>` +
+      `<p><b>Arguments</b></p><pre>${escapeHtml(JSON.stringify(input ?? {}, null, 2))}</pre>` +
+      `<p><b>${failed ? "Error" : "Result"}</b></p><pre>${escapeHtml(output)}</pre></details>`,
+    "text/plain": `${summary}\n${failed ? "Error" : "Result"}: ${output}`,
+  };
+}
@@ -0,0 +1,188 @@
+// src/transcript.ts
+// Saved conversations (%chat save / %chat load) and transcript exports
+// (%chat export).
+//
+// A saved conversation is a JSON document holding the transcript with the
+// system prompt, generation parameters and model needed to continue it.
+// Exports are one-way: Markdown to read, a notebook to re-run, and JSON
+// Lines in the OpenAI chat fine-tuning format ({"messages": [...]} per
+// conversation, so exports of several notebooks can be concatenated).
+
+import type { ModelMessage } from "ai";
+import { type GenerationConfig, validateGenerationConfig } from "./generation.js";
+
+export const CONVERSATION_FORMAT = "webllm-chat-conversation";
+export const CONVERSATION_VERSION = 1;
+
+export interface SavedConversation {
+  format: typeof CONVERSATION_FORMAT;
+  version: number;
+  /** Canonical ID of the model that produced the replies, if any */
+  model: string | null;
+  /** Effective system prompt; empty for none */
+  system: string;
+  /** Parameters set with %chat config; the settings defaults apply to the rest */
+  generation: GenerationConfig;
+  /** Alternating user and assistant turns */
+  messages: ModelMessage[];
+}
+
+export const EXPORT_FORMATS = ["md", "ipynb", "jsonl"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export function isExportFormat(value: string): value is ExportFormat {
+  return (EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * Export format implied by a file extension, e.g. "chat.md" -> "md".
+ */
+export function exportFormatFromPath(path: string): ExportFormat | undefined {
+  const extension = path.match(/\.([^./]+)$/)?.[1]?.toLowerCase();
+  if (extension === "markdown") {
+    return "md";
+  }
+  return extension && isExportFormat(extension) ? extension : undefined;
+}
+
+/**
+ * Text of a message. History messages hold plain strings; text parts of
+ * structured content are joined.
+ */
+export function messageText(message: ModelMessage): string {
+  if (typeof message.content === "string") {
+    return message.content;
+  }
+  return message.content
+    .map((part: any) => (part.type === "text" ? part.text : ""))
+    .filter(Boolean)
+    .join("\n");
+}
+
+/**
+ * Validate a saved conversation read from a file. Throws an Error with a
+ * user-facing message.
+ */
+export function parseConversation(data: unknown): SavedConversation {
+  const doc = data as any;
+  if (typeof doc !== "object" || doc === null || doc.format !== CONVERSATION_FORMAT) {
+    throw new Error(`Not a saved conversation: expected JSON with "format": "${CONVERSATION_FORMAT}"`);
+  }
+  if (typeof doc.version !== "number" || doc.version > CONVERSATION_VERSION) {
+    throw new Error(`Unsupported conversation version: ${doc.version} (this kernel reads version ${CONVERSATION_VERSION})`);
+  }
+  if (!Array.isArray(doc.messages)) {
+    throw new Error(`Invalid conversation: "messages" must be an array`);
+  }
+  doc.messages.forEach((message: any, index: number) => {
+    const role = index % 2 === 0 ? "user" : "assistant";
+    if (message?.role !== role) {
+      throw new Error(`Invalid conversation: messages[${index}] must have role "${role}" (turns alternate user, assistant)`);
+    }
+    if (typeof message.content !== "string") {
+      throw new Error(`Invalid conversation: messages[${index}].content must be a string`);
+    }
+  });
+  if (doc.messages.length % 2 !== 0) {
+    throw new Error(`Invalid conversation: the last turn has no assistant reply`);
+  }
+  return {
+    format: CONVERSATION_FORMAT,
+    version: doc.version,
+    model: typeof doc.model === "string" ? doc.model : null,
+    system: typeof doc.system === "string" ? doc.system : "",
+    generation: validateGenerationConfig(doc.generation ?? {}),
+    messages: doc.messages.map((message: any) => ({ role: message.role, content: message.content })),
+  };
+}
+
+function toMarkdown(conversation: SavedConversation): string {
+  const lines = ["# Chat transcript", ""];
+  if (conversation.model) {
+    lines.push(`**Model:** \`${conversation.model}\``, "");
+  }
+  if (conversation.system) {
+    lines.push(`**System prompt:**`, "", ...conversation.system.split("\n").map((line) => `> ${line}`), "");
+  }
+  for (const message of conversation.messages) {
+    lines.push(`## ${message.role === "user" ? "User" : "Assistant"}`, "", messageText(message), "");
+  }
+  return lines.join("\n");
+}
+
+// Split text into nbformat source lines, keeping the newlines
+function sourceLines(text: string): string[] {
+  return text.split(/(?<=\n)/);
+}
+
+/**
+ * A notebook for the webllm-chat kernel with one cell per turn: the prompt
+ * as a code cell and the reply as its Markdown output.
+ */
+function toNotebook(conversation: SavedConversation): object {
+  const header = ["# Chat transcript\n"];
+  if (conversation.model) {
+    header.push(`\nModel: \`${conversation.model}\`\n`);
+  }
+  if (conversation.system) {
+    header.push(`\nSystem prompt:\n\n`, ...conversation.system.split("\n").map((line) => `> ${line}\n`));
+  }
+  const cells: object[] = [{ cell_type: "markdown", metadata: {}, source: header }];
+  let executionCount = 0;
+  for (const message of conversation.messages) {
+    const text = messageText(message);
+    if (message.role === "user") {
+      executionCount++;
+      cells.push({
+        cell_type: "code",
+        execution_count: executionCount,
+        metadata: {},
+        source: sourceLines(text),
+        outputs: [],
+      });
+    } else {
+      const cell: any = cells[cells.length - 1];
+      if (cell.cell_type === "code") {
+        cell.outputs.push({
+          output_type: "execute_result",
+          execution_count: cell.execution_count,
+          data: { "text/markdown": sourceLines(text), "text/plain": sourceLines(text) },
+          metadata: {},
+        });
+      }
+    }
+  }
+  return {
+    nbformat: 4,
+    nbformat_minor: 5,
+    metadata: {
+      kernelspec: { name: "webllm-chat", display_name: "WebLLM Chat", language: "python" },
+      language_info: { name: "python" },
+    },
+    cells: cells.map((cell, index) => ({ id: `chat-${index}`, ...cell })),
+  };
+}
+
+function toJsonl(conversation: SavedConversation): string {
+  const messages = [
+    ...(conversation.system ? [{ role: "system", content: conversation.system }] : []),
+    ...conversation.messages.map((message) => ({ role: message.role, content: messageText(message) })),
+  ];
+  return JSON.stringify({ messages }) + "\n";
+}
+
+/**
+ * Render a conversation in an export format. Notebooks are returned as
+ * nbformat JSON objects, the other formats as text.
+ */
+export function exportConversation(conversation: SavedConversation, format: ExportFormat): string | object {
+  switch (format) {
+    case "md":
+      return toMarkdown(conversation);
+    case "ipynb":
+      return toNotebook(conversation);
+    case "jsonl":
+      return toJsonl(conversation);
+  }
+}